@@ -0,0 +1,113 @@
+// Bulk validation for large address lists: file parsing plus chunked, cancellable validation
+import type { EmailRejectionCode, EmailValidationResult } from './v3-email-validator';
+
+export interface AddressRow {
+  line: number; // 1-based line in the source file
+  raw: string; // original line, written back unchanged on download
+  email: string;
+}
+
+export interface AddressFile {
+  header: string | null; // CSV header line, kept for downloads
+  rows: AddressRow[];
+}
+
+export interface BulkProgress {
+  processed: number;
+  total: number;
+  valid: number;
+  invalid: number;
+  byCode: Partial<Record<EmailRejectionCode, number>>;
+}
+
+export interface BulkResult {
+  progress: BulkProgress;
+  validRows: AddressRow[];
+  invalidRows: Array<AddressRow & { code: EmailRejectionCode | null }>;
+  cancelled: boolean;
+}
+
+// Splits one CSV line, honouring "quoted, fields" and "" escapes (no multi-line fields)
+export function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  fields.push(field);
+  return fields;
+}
+
+/**
+ * Reads a newline-separated or CSV address list. For CSV the email column is the header
+ * named like "email"/"e-mail", or else the first column of the first row containing an @.
+ */
+export function parseAddressFile(text: string, fileName = ''): AddressFile {
+  const lines = text.split(/\r?\n/).map((raw, idx) => ({ raw, line: idx + 1 })).filter(({ raw }) => raw.trim());
+  const isCsv = /\.csv$/i.test(fileName) || (lines.length > 0 && lines[0].raw.includes(','));
+  if (!isCsv) {
+    return { header: null, rows: lines.map(({ raw, line }) => ({ raw, line, email: raw.trim() })) };
+  }
+
+  const firstFields = lines.length > 0 ? splitCsvLine(lines[0].raw) : [];
+  let column = firstFields.findIndex(field => /^\s*e-?mail(\s*address)?\s*$/i.test(field));
+  const hasHeader = column !== -1;
+  if (!hasHeader) column = Math.max(0, firstFields.findIndex(field => field.includes('@')));
+  const body = hasHeader ? lines.slice(1) : lines;
+  return {
+    header: hasHeader ? lines[0].raw : null,
+    rows: body.map(({ raw, line }) => ({ raw, line, email: (splitCsvLine(raw)[column] ?? '').trim() })),
+  };
+}
+
+/**
+ * Validates rows in chunks, yielding to the event loop between chunks so the page stays
+ * responsive and progress can render. Stops early (cancelled: true) when the signal aborts.
+ */
+export async function validateInChunks(
+  rows: AddressRow[],
+  validate: (email: string) => EmailValidationResult,
+  options: { chunkSize?: number; onProgress?: (progress: BulkProgress) => void; signal?: AbortSignal } = {}
+): Promise<BulkResult> {
+  const { chunkSize = 2000, onProgress, signal } = options;
+  const progress: BulkProgress = { processed: 0, total: rows.length, valid: 0, invalid: 0, byCode: {} };
+  const validRows: AddressRow[] = [];
+  const invalidRows: BulkResult['invalidRows'] = [];
+
+  for (let start = 0; start < rows.length; start += chunkSize) {
+    if (signal?.aborted) return { progress, validRows, invalidRows, cancelled: true };
+    for (const row of rows.slice(start, start + chunkSize)) {
+      const { valid, code } = validate(row.email);
+      if (valid) {
+        validRows.push(row);
+        progress.valid++;
+      } else {
+        invalidRows.push({ ...row, code });
+        progress.invalid++;
+        if (code) progress.byCode[code] = (progress.byCode[code] ?? 0) + 1;
+      }
+    }
+    progress.processed = Math.min(start + chunkSize, rows.length);
+    onProgress?.({ ...progress, byCode: { ...progress.byCode } });
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+  return { progress, validRows, invalidRows, cancelled: false };
+}
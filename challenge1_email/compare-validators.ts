@@ -0,0 +1,38 @@
+// Runs the same test cases through several validator implementations and lines up the answers
+
+export interface ValidatorImplementation {
+  id: string;
+  label: string;
+  validate: (email: string) => boolean;
+}
+
+export interface ComparisonCase {
+  email: string;
+  description: string;
+  expected: boolean | null; // null when the case has no agreed answer
+}
+
+export interface ComparisonRow extends ComparisonCase {
+  results: Record<string, boolean>; // validator id -> accepted
+  disagreement: boolean; // validators gave different answers
+}
+
+export function compareValidators(cases: ComparisonCase[], validators: ValidatorImplementation[]): ComparisonRow[] {
+  return cases.map(testCase => {
+    const results: Record<string, boolean> = {};
+    for (const validator of validators) results[validator.id] = validator.validate(testCase.email);
+    const answers = new Set(Object.values(results));
+    return { ...testCase, results, disagreement: answers.size > 1 };
+  });
+}
+
+// How many cases with an expected answer each validator gets right
+export function scoreValidators(rows: ComparisonRow[], validators: ValidatorImplementation[]): Record<string, { correct: number; total: number }> {
+  const scored = rows.filter(row => row.expected !== null);
+  return Object.fromEntries(
+    validators.map(validator => [
+      validator.id,
+      { correct: scored.filter(row => row.results[validator.id] === row.expected).length, total: scored.length },
+    ])
+  );
+}
@@ -0,0 +1,140 @@
+// "Did you mean" suggestions for mistyped email domains, based on edit distance
+
+export interface SuggestionConfig {
+  domains: string[]; // full domains to match first, e.g. 'gmail.com'
+  tlds: string[]; // known TLDs/suffixes used to fix the end of other domains, e.g. 'com', 'co.uk'
+  maxDistance: number; // largest edit distance still treated as a typo (labels of 6+ characters)
+}
+
+export interface EmailSuggestion {
+  suggestion: string; // full corrected address, e.g. 'user@gmail.com'
+  domain: string; // corrected domain
+  distance: number; // edit distance between the typed and corrected domain
+}
+
+export const DEFAULT_SUGGESTION_CONFIG: SuggestionConfig = {
+  domains: [
+    'gmail.com', 'googlemail.com', 'yahoo.com', 'yahoo.co.uk', 'ymail.com', 'hotmail.com', 'hotmail.co.uk',
+    'outlook.com', 'live.com', 'msn.com', 'icloud.com', 'me.com', 'mac.com', 'aol.com', 'protonmail.com',
+    'proton.me', 'gmx.com', 'gmx.de', 'web.de', 'mail.com', 'yandex.ru', 'qq.com', '163.com',
+    'comcast.net', 'verizon.net', 'att.net',
+  ],
+  tlds: [
+    'com', 'net', 'org', 'edu', 'gov', 'info', 'biz', 'io', 'co', 'me', 'us', 'uk', 'co.uk', 'ca', 'de',
+    'fr', 'es', 'it', 'nl', 'ru', 'jp', 'cn', 'in', 'br', 'com.br', 'au', 'com.au',
+  ],
+  maxDistance: 2,
+};
+
+/**
+ * Edit distance counting insertions, deletions, substitutions and adjacent
+ * transpositions (optimal string alignment), so 'gmial' is one edit from 'gmail'.
+ */
+export function editDistance(a: string, b: string): number {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array<number>(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) rows[0][j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return rows[a.length][b.length];
+}
+
+// Labels shorter than this tolerate a single edit only: 'hp' and 'me' are two edits apart
+const SHORT_LABEL_LENGTH = 6;
+// With a known TLD, labels shorter than this are never treated as typos (x.com, fb.com, ms.com)
+const MIN_TYPO_LABEL_LENGTH = 4;
+
+function closest(target: string, candidates: string[]): { match: string; distance: number } | null {
+  let best: { match: string; distance: number } | null = null;
+  for (const candidate of candidates) {
+    const distance = editDistance(target, candidate);
+    if (!best || distance < best.distance) best = { match: candidate, distance };
+  }
+  return best;
+}
+
+// Splits a domain into the labels before its suffix and the suffix, preferring known two-label suffixes
+function splitSuffix(domain: string, tlds: string[]): { label: string; suffix: string; known: boolean } {
+  const labels = domain.split('.');
+  for (const suffixLabels of [2, 1]) {
+    const suffix = labels.slice(-suffixLabels).join('.');
+    if (labels.length > suffixLabels && tlds.includes(suffix)) {
+      return { label: labels.slice(0, -suffixLabels).join('.'), suffix, known: true };
+    }
+  }
+  return { label: labels.slice(0, -1).join('.'), suffix: labels[labels.length - 1], known: false };
+}
+
+/**
+ * Closest popular domain within the typo threshold, which shrinks to one edit for short
+ * labels. When the typed TLD is already known only the label is compared, against
+ * domains with the same suffix, so gmx.net never becomes gmx.de. Failing that, a suffix
+ * one edit from the popular domain's counts as a truncated TLD: yaho.co -> yahoo.com.
+ */
+function matchDomain(domain: string, config: SuggestionConfig): { match: string; distance: number } | null {
+  const typed = splitSuffix(domain, config.tlds);
+  const threshold = typed.label.length < SHORT_LABEL_LENGTH ? Math.min(1, config.maxDistance) : config.maxDistance;
+  if (!typed.known) {
+    const best = closest(domain, config.domains);
+    return best && best.distance <= threshold ? best : null;
+  }
+  if (typed.label.length < MIN_TYPO_LABEL_LENGTH) return null;
+  const sameSuffix = config.domains
+    .map(domain => ({ domain, ...splitSuffix(domain, config.tlds) }))
+    .filter(candidate => candidate.suffix === typed.suffix);
+  const best = closest(typed.label, sameSuffix.map(candidate => candidate.label));
+  if (best && best.distance <= threshold) {
+    return { match: sameSuffix.find(candidate => candidate.label === best.match)!.domain, distance: best.distance };
+  }
+  const nearSuffix = config.domains
+    .map(domain => ({ domain, ...splitSuffix(domain, config.tlds) }))
+    .filter(candidate => editDistance(candidate.suffix, typed.suffix) === 1);
+  const near = closest(typed.label, nearSuffix.map(candidate => candidate.label));
+  if (!near || near.distance > threshold) return null;
+  const match = nearSuffix.find(candidate => candidate.label === near.match)!.domain;
+  return { match, distance: editDistance(domain, match) };
+}
+
+/**
+ * Suggests a corrected address when the domain looks like a typo of a popular domain
+ * ('gmial.com' -> 'gmail.com') or ends in a mistyped TLD ('example.cmo' -> 'example.com').
+ * Returns null when the domain is already known or nothing is close enough.
+ */
+export function suggestEmail(email: string, config: SuggestionConfig = DEFAULT_SUGGESTION_CONFIG): EmailSuggestion | null {
+  const at = email.lastIndexOf('@');
+  if (at <= 0 || at === email.length - 1) return null;
+  const local = email.slice(0, at);
+  const domain = email.slice(at + 1).toLowerCase();
+  if (config.domains.includes(domain)) return null;
+
+  const build = (fixed: string, distance: number): EmailSuggestion => ({ suggestion: `${local}@${fixed}`, domain: fixed, distance });
+
+  // Whole-domain typos first
+  const domainMatch = matchDomain(domain, config);
+  if (domainMatch) return build(domainMatch.match, domainMatch.distance);
+
+  // Then the TLD, trying two-label suffixes like co.uk before single labels
+  const labels = domain.split('.');
+  for (const suffixLabels of [2, 1]) {
+    if (labels.length <= suffixLabels) continue;
+    const tld = labels.slice(-suffixLabels).join('.');
+    if (config.tlds.includes(tld)) return null;
+    const tldMatch = closest(tld, config.tlds.filter(known => known.split('.').length === suffixLabels));
+    // TLDs are short, so only a single edit counts as a typo
+    if (tldMatch && tldMatch.distance === 1) {
+      const fixed = [...labels.slice(0, -suffixLabels), tldMatch.match].join('.');
+      // A fixed TLD can reveal a popular domain typo as well: gmial.cmo -> gmial.com -> gmail.com
+      const fixedMatch = config.domains.includes(fixed) ? null : matchDomain(fixed, config);
+      return fixedMatch
+        ? build(fixedMatch.match, fixedMatch.distance + tldMatch.distance)
+        : build(fixed, tldMatch.distance);
+    }
+  }
+  return null;
+}
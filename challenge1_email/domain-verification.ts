@@ -0,0 +1,161 @@
+// Optional deliverability stage after isValidEmail: MX and A lookups through an injectable resolver
+import { toASCII } from './punycode';
+
+export interface MxRecord {
+  exchange: string; // mail host, '' or '.' for a null MX
+  priority: number;
+}
+
+/**
+ * DNS lookups used by verifyEmailDomain. Shaped like node:dns/promises, so in Node
+ * `{ resolveMx: dns.resolveMx, resolveA: dns.resolve4 }` works as is. Lookups reject with
+ * an error whose code is 'ENOTFOUND' when the domain does not exist and 'ENODATA' when it
+ * exists without records of that type.
+ */
+export interface DnsResolver {
+  resolveMx(domain: string): Promise<MxRecord[]>;
+  resolveA(domain: string): Promise<string[]>;
+}
+
+export type DomainVerificationStatus =
+  | 'mx' // at least one usable MX host
+  | 'null-mx' // RFC 7505 null MX: the domain accepts no mail
+  | 'no-mx' // no MX records; deliverable only through the A record fallback
+  | 'nxdomain' // the domain does not exist
+  | 'error'; // lookup failed or timed out, so nothing is known
+
+export interface DomainVerificationResult {
+  domain: string; // ASCII form that was looked up
+  status: DomainVerificationStatus;
+  deliverable: boolean | null; // null when the lookup failed
+  mx: MxRecord[];
+  addresses: string[]; // A records, only looked up when there is no MX
+  message: string;
+}
+
+const errorCode = (error: unknown) => (error as { code?: string } | null)?.code;
+
+// Empty array for ENODATA, null for ENOTFOUND; anything else propagates
+async function lookup<T>(query: () => Promise<T[]>): Promise<T[] | null> {
+  try {
+    return await query();
+  } catch (error) {
+    if (errorCode(error) === 'ENODATA') return [];
+    if (errorCode(error) === 'ENOTFOUND') return null;
+    throw error;
+  }
+}
+
+/**
+ * The domain verifyEmailDomain looks up: the part after the @ that separates local part
+ * and domain, without RFC 5322 (comments) or surrounding whitespace, in lowercase ASCII.
+ * lookupDomain('user@(c)Example.com(a@b)') === 'example.com'
+ */
+export function lookupDomain(email: string): string {
+  // The separating @ is the last one outside quoted strings and comments
+  let at = -1;
+  let depth = 0;
+  let quoted = false;
+  for (let i = 0; i < email.length; i++) {
+    const ch = email[i];
+    if (ch === '\\') i++;
+    else if (quoted) quoted = ch !== '"';
+    else if (ch === '"' && depth === 0) quoted = true;
+    else if (ch === '(') depth++;
+    else if (ch === ')') depth = Math.max(0, depth - 1);
+    else if (ch === '@' && depth === 0) at = i;
+  }
+  let domain = email.slice(at + 1);
+  // Innermost comments first, so nested ones go too
+  for (let prev = ''; prev !== domain; ) {
+    prev = domain;
+    domain = domain.replace(/\((?:[^()\\]|\\.)*\)/g, '');
+  }
+  return toASCII(domain.trim()).toLowerCase();
+}
+
+/**
+ * Looks up the domain of an address that already passed isValidEmail. MX records decide
+ * first; a null MX (single record with exchange '.' and priority 0) means no mail, and a
+ * domain without MX falls back to its A record as RFC 5321 section 5.1 describes.
+ * Never rejects: failures and timeouts come back as status 'error'.
+ */
+export async function verifyEmailDomain(
+  email: string,
+  resolver: DnsResolver,
+  options: { timeoutMs?: number } = {}
+): Promise<DomainVerificationResult> {
+  const { timeoutMs = 5000 } = options;
+  const domain = lookupDomain(email);
+  const result = (status: DomainVerificationStatus, deliverable: boolean | null, message: string, mx: MxRecord[] = [], addresses: string[] = []) =>
+    ({ domain, status, deliverable, mx, addresses, message });
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`DNS lookup timed out after ${timeoutMs} ms`)), timeoutMs);
+  });
+
+  try {
+    return await Promise.race([
+      (async () => {
+        const mx = await lookup(() => resolver.resolveMx(domain));
+        if (mx === null) return result('nxdomain', false, `Domain ${domain} does not exist`);
+        if (mx.length === 1 && mx[0].priority === 0 && (mx[0].exchange === '.' || mx[0].exchange === '')) {
+          return result('null-mx', false, `${domain} publishes a null MX and accepts no mail`, mx);
+        }
+        if (mx.length > 0) {
+          const sorted = [...mx].sort((a, b) => a.priority - b.priority);
+          return result('mx', true, `Mail goes to ${sorted[0].exchange}`, sorted);
+        }
+        const addresses = (await lookup(() => resolver.resolveA(domain))) ?? [];
+        return addresses.length > 0
+          ? result('no-mx', true, `No MX records; mail falls back to the A record ${addresses[0]}`, [], addresses)
+          : result('no-mx', false, 'No MX or A records', [], []);
+      })(),
+      timeout,
+    ]);
+  } catch (error) {
+    return result('error', null, (error as Error).message);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export interface FakeDnsZone {
+  mx?: MxRecord[];
+  a?: string[];
+}
+
+const dnsError = (code: string, domain: string) => Object.assign(new Error(`${code} ${domain}`), { code });
+
+/**
+ * In-memory resolver for tests and the demo page. Domains missing from `zones` are
+ * NXDOMAIN; a zone without mx or a records answers ENODATA for that type.
+ */
+export function createFakeResolver(zones: Record<string, FakeDnsZone>, options: { latencyMs?: number } = {}): DnsResolver {
+  const { latencyMs = 0 } = options;
+  const answer = async <T>(domain: string, pick: (zone: FakeDnsZone) => T[] | undefined): Promise<T[]> => {
+    if (latencyMs > 0) await new Promise(resolve => setTimeout(resolve, latencyMs));
+    const zone = zones[domain.toLowerCase()];
+    if (!zone) throw dnsError('ENOTFOUND', domain);
+    const records = pick(zone);
+    if (!records || records.length === 0) throw dnsError('ENODATA', domain);
+    return records;
+  };
+  return {
+    resolveMx: domain => answer(domain, zone => zone.mx),
+    resolveA: domain => answer(domain, zone => zone.a),
+  };
+}
+
+// Zones for some of the domains in the built-in test cases, covering every outcome; the rest are NXDOMAIN
+export const DEMO_DNS_ZONES: Record<string, FakeDnsZone> = {
+  'example.com': { mx: [{ exchange: '.', priority: 0 }], a: ['93.184.215.14'] },
+  'mail.example.com': { a: ['93.184.215.20'] },
+  'example.co.uk': { mx: [{ exchange: 'mx.example.co.uk', priority: 10 }] },
+  'example.museum': {},
+  'gmail.com': { mx: [{ exchange: 'gmail-smtp-in.l.google.com', priority: 5 }, { exchange: 'alt1.gmail-smtp-in.l.google.com', priority: 10 }] },
+  'store.online': { mx: [{ exchange: 'mx1.store.online', priority: 10 }] },
+  'domain.technology': { mx: [{ exchange: 'mail.domain.technology', priority: 20 }] },
+  'xn--mnchen-3ya.de': { mx: [{ exchange: 'mail.xn--mnchen-3ya.de', priority: 10 }] },
+};
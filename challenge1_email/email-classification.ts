@@ -0,0 +1,36 @@
+// Tags for addresses worth flagging without rejecting them, driven by email-lists.json
+import lists from './email-lists.json';
+
+export type EmailTag = 'disposable' | 'role' | 'plus-tagged' | 'free-provider';
+
+export const EMAIL_LISTS_VERSION: string = lists.version;
+
+const DISPOSABLE_DOMAINS = new Set<string>(lists.disposable);
+const ROLE_MAILBOXES = new Set<string>(lists.role);
+const FREE_PROVIDERS = new Set<string>(lists.freeProvider);
+
+// Matches the domain itself or any parent, so sub.mailinator.com counts as mailinator.com
+function inDomainList(domain: string, list: Set<string>): boolean {
+  const labels = domain.split('.');
+  return labels.some((_, i) => list.has(labels.slice(i).join('.')));
+}
+
+/**
+ * Tags an address by its local part and domain. Does not validate it first:
+ * tagEmail('admin+promo@mailinator.com') => ['disposable', 'role', 'plus-tagged']
+ */
+export function tagEmail(email: string): EmailTag[] {
+  const at = email.lastIndexOf('@');
+  if (at === -1) return [];
+  const local = email.slice(0, at).toLowerCase();
+  const domain = email.slice(at + 1).toLowerCase();
+  const plus = local.indexOf('+');
+  const mailbox = plus > 0 ? local.slice(0, plus) : local; // admin+x@ is still a role mailbox
+
+  const tags: EmailTag[] = [];
+  if (inDomainList(domain, DISPOSABLE_DOMAINS)) tags.push('disposable');
+  if (ROLE_MAILBOXES.has(mailbox)) tags.push('role');
+  if (plus > 0 && plus < local.length - 1) tags.push('plus-tagged');
+  if (inDomainList(domain, FREE_PROVIDERS)) tags.push('free-provider');
+  return tags;
+}
@@ -0,0 +1,219 @@
+// Property-based fuzzing: random addresses built from the LOCAL_PART / DOMAIN_LABELS / TLD grammar,
+// invalid ones derived by known-bad mutations, with shrinking of any disagreement
+
+export type MutationKind =
+  | 'consecutive-dots'
+  | 'leading-dot'
+  | 'trailing-dot'
+  | 'leading-hyphen'
+  | 'trailing-hyphen'
+  | 'whitespace'
+  | 'double-at';
+
+export const MUTATION_KINDS: MutationKind[] = [
+  'consecutive-dots', 'leading-dot', 'trailing-dot', 'leading-hyphen', 'trailing-hyphen', 'whitespace', 'double-at',
+];
+
+// Structured form of a generated address; shrinking works on this so the expected verdict stays known
+export interface AddressShape {
+  localRuns: string[]; // joined with single dots
+  labels: string[]; // domain labels before the TLD
+  tld: string;
+  mutation: { kind: MutationKind; at: number } | null; // at: character offset or label index, clamped on render
+}
+
+export interface FuzzCase {
+  email: string;
+  expected: boolean;
+  shape: AddressShape;
+}
+
+export interface PropertyFailure {
+  original: FuzzCase;
+  shrunk: FuzzCase;
+  actual: boolean;
+}
+
+export interface PropertyRunResult {
+  seed: number;
+  runs: number;
+  failures: PropertyFailure[];
+}
+
+const LOCAL_ALPHABET = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789_%+-';
+const LOCAL_UNICODE = 'éüßдж中文'; // RFC 6531 letters the practical pattern accepts via \p{L}
+const LABEL_EDGE = 'abcdefghijklmnopqrstuvwxyz0123456789';
+const LABEL_INNER = `${LABEL_EDGE}-`;
+const TLD_ALPHABET = 'abcdefghijklmnopqrstuvwxyz';
+const WELL_FORMED_LABEL = /^[a-z0-9]([a-z0-9-]*[a-z0-9])?$/;
+
+// mulberry32: small seeded PRNG so a failing run can be reproduced from its seed
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function generateShape(random: () => number, mutate: boolean): AddressShape {
+  const int = (min: number, max: number) => min + Math.floor(random() * (max - min + 1));
+  const pick = (chars: string) => Array.from(chars)[Math.floor(random() * Array.from(chars).length)];
+  const word = (length: number, alphabet: () => string) => Array.from({ length }, alphabet).join('');
+
+  const localRuns = Array.from({ length: int(1, 3) }, () =>
+    word(int(1, 8), () => (random() < 0.05 ? pick(LOCAL_UNICODE) : pick(LOCAL_ALPHABET)))
+  );
+  const labels = Array.from({ length: int(1, 3) }, () => {
+    const length = int(1, 10);
+    if (length === 1) return pick(LABEL_EDGE);
+    return pick(LABEL_EDGE) + word(length - 2, () => pick(LABEL_INNER)) + pick(LABEL_EDGE);
+  });
+  const tld = word(int(2, 6), () => pick(TLD_ALPHABET));
+  const mutation = mutate ? { kind: MUTATION_KINDS[int(0, MUTATION_KINDS.length - 1)], at: int(0, 40) } : null;
+  return { localRuns, labels, tld, mutation };
+}
+
+/**
+ * Renders a shape to an address. Every mutation breaks a rule both validation modes enforce,
+ * so a mutated shape is always expected to be invalid.
+ */
+export function renderShape(shape: AddressShape): FuzzCase {
+  let local = shape.localRuns.join('.');
+  const labels = [...shape.labels];
+  const { mutation } = shape;
+  const clamp = (at: number, max: number) => Math.min(at, max);
+
+  switch (mutation?.kind) {
+    case 'consecutive-dots': {
+      const at = clamp(mutation.at, local.length - 1) + 1;
+      local = `${local.slice(0, at)}..${local.slice(at)}`;
+      break;
+    }
+    case 'leading-dot':
+      local = `.${local}`;
+      break;
+    case 'trailing-dot':
+      local = `${local}.`;
+      break;
+    case 'leading-hyphen':
+      labels[clamp(mutation.at, labels.length - 1)] = `-${labels[clamp(mutation.at, labels.length - 1)]}`;
+      break;
+    case 'trailing-hyphen':
+      labels[clamp(mutation.at, labels.length - 1)] = `${labels[clamp(mutation.at, labels.length - 1)]}-`;
+      break;
+  }
+
+  let email = `${local}@${[...labels, shape.tld].join('.')}`;
+  if (mutation?.kind === 'whitespace') {
+    const at = clamp(mutation.at, email.length - 2) + 1; // inside the address, never at either end
+    email = `${email.slice(0, at)} ${email.slice(at)}`;
+  } else if (mutation?.kind === 'double-at') {
+    email = email.replace('@', '@@');
+  }
+  return { email, expected: mutation === null, shape };
+}
+
+// Smaller or simpler variants of a shape that keep it well formed and keep its mutation
+function shrinkCandidates(shape: AddressShape): AddressShape[] {
+  const candidates: AddressShape[] = [];
+  const withRuns = (localRuns: string[]) => candidates.push({ ...shape, localRuns });
+  const withLabels = (labels: string[]) => candidates.push({ ...shape, labels });
+
+  shape.localRuns.forEach((run, i) => {
+    if (shape.localRuns.length > 1) withRuns(shape.localRuns.filter((_, j) => j !== i));
+    const chars = Array.from(run);
+    for (let c = 0; c < chars.length && chars.length > 1; c++) {
+      withRuns(shape.localRuns.map((r, j) => (j === i ? [...chars.slice(0, c), ...chars.slice(c + 1)].join('') : r)));
+    }
+    if (run !== 'a') withRuns(shape.localRuns.map((r, j) => (j === i ? 'a' : r)));
+    for (let c = 0; c < chars.length; c++) {
+      if (chars[c] !== 'a') withRuns(shape.localRuns.map((r, j) => (j === i ? [...chars.slice(0, c), 'a', ...chars.slice(c + 1)].join('') : r)));
+    }
+  });
+  shape.labels.forEach((label, i) => {
+    if (shape.labels.length > 1) withLabels(shape.labels.filter((_, j) => j !== i));
+    for (let c = 0; c < label.length && label.length > 1; c++) {
+      const shorter = label.slice(0, c) + label.slice(c + 1);
+      if (WELL_FORMED_LABEL.test(shorter)) withLabels(shape.labels.map((l, j) => (j === i ? shorter : l)));
+    }
+    if (label !== 'a') withLabels(shape.labels.map((l, j) => (j === i ? 'a' : l)));
+    // 'a' is a letter, so swapping it in keeps the label well formed: 8-u -> a-u -> a-a
+    for (let c = 0; c < label.length; c++) {
+      if (label[c] !== 'a') withLabels(shape.labels.map((l, j) => (j === i ? `${label.slice(0, c)}a${label.slice(c + 1)}` : l)));
+    }
+  });
+  for (let c = 0; c < shape.tld.length && shape.tld.length > 2; c++) {
+    candidates.push({ ...shape, tld: shape.tld.slice(0, c) + shape.tld.slice(c + 1) });
+  }
+  if (shape.tld !== 'aa') candidates.push({ ...shape, tld: 'aa' });
+  for (let c = 0; c < shape.tld.length; c++) {
+    if (shape.tld[c] !== 'a') candidates.push({ ...shape, tld: `${shape.tld.slice(0, c)}a${shape.tld.slice(c + 1)}` });
+  }
+  // Moving a letter ahead of an 'a' lets every TLD that fails on one letter end up the same: az -> za
+  for (let c = 1; c < shape.tld.length; c++) {
+    if (shape.tld[c - 1] === 'a' && shape.tld[c] !== 'a') {
+      candidates.push({ ...shape, tld: `${shape.tld.slice(0, c - 1)}${shape.tld[c]}a${shape.tld.slice(c + 1)}` });
+    }
+  }
+  if (shape.mutation && shape.mutation.at > 0) candidates.push({ ...shape, mutation: { ...shape.mutation, at: 0 } });
+  return candidates;
+}
+
+/**
+ * Greedily replaces a failing case with the first smaller variant that still fails,
+ * until no variant does.
+ */
+export function shrinkFailure(failing: FuzzCase, validate: (email: string) => boolean): FuzzCase {
+  let current = failing;
+  for (let steps = 0; steps < 500; steps++) {
+    const next = shrinkCandidates(current.shape)
+      .map(renderShape)
+      .find(candidate => validate(candidate.email) !== candidate.expected);
+    if (!next) break;
+    current = next;
+  }
+  return current;
+}
+
+/**
+ * Runs `runs` generated cases (about half valid, half mutated) through validate and checks
+ * each verdict against the one implied by the grammar. Failures come back shrunk, at most
+ * one per distinct shrunk address.
+ */
+export function runPropertyFuzz(
+  validate: (email: string) => boolean,
+  options: { runs?: number; seed?: number } = {}
+): PropertyRunResult {
+  const { runs = 500, seed = Date.now() % 1000000 } = options;
+  const random = createRandom(seed);
+  const failures: PropertyFailure[] = [];
+  const seen = new Set<string>();
+
+  for (let i = 0; i < runs; i++) {
+    const original = renderShape(generateShape(random, random() < 0.5));
+    if (validate(original.email) === original.expected) continue;
+    const shrunk = shrinkFailure(original, validate);
+    if (seen.has(shrunk.email)) continue;
+    seen.add(shrunk.email);
+    failures.push({ original, shrunk, actual: validate(shrunk.email) });
+  }
+  return { seed, runs, failures };
+}
+
+/**
+ * Formats failures as custom test case lines (see parseTestCaseLines), quoting addresses
+ * that contain spaces or quotes.
+ */
+export function failuresToTestCases(result: PropertyRunResult): string {
+  return result.failures
+    .map(({ shrunk }, i) => {
+      const email = /[\s"]/.test(shrunk.email) ? `"${shrunk.email.replace(/[\\"]/g, '\\$&')}"` : shrunk.email;
+      const mutation = shrunk.shape.mutation ? ` ${shrunk.shape.mutation.kind}` : '';
+      return `(fuzz seed ${result.seed} #${i + 1}${mutation}) ${shrunk.expected} ${email}`;
+    })
+    .join('\n');
+}
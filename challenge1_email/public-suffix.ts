@@ -0,0 +1,53 @@
+// Offline public suffix lookup against the bundled snapshot in public-suffix-list.json
+import suffixList from './public-suffix-list.json';
+import { toASCII, toUnicode } from './punycode';
+
+export const PUBLIC_SUFFIX_VERSION: string = suffixList.version;
+
+const RULES = new Set<string>(suffixList.rules);
+
+export interface SuffixMatch {
+  suffix: string; // public suffix of the domain, e.g. 'co.uk'
+  rule: string; // list rule that decided it, e.g. 'co.uk', '*.ck' or '!www.ck'
+  registrable: string | null; // suffix plus one label; null when the domain is itself a suffix
+  knownTld: boolean; // false when no rule matched and only the implicit '*' rule applied
+}
+
+/**
+ * Finds the public suffix of a domain using the PSL algorithm: exception rules (!) win,
+ * otherwise the rule with the most labels, with * matching any single label.
+ * Domains are compared in lowercase Unicode form, so punycoded input works too.
+ * matchPublicSuffix('mail.example.co.uk') => { suffix: 'co.uk', registrable: 'example.co.uk', ... }
+ */
+export function matchPublicSuffix(domain: string): SuffixMatch {
+  const labels = toUnicode(toASCII(domain)).toLowerCase().split('.');
+  let suffixStart = -1;
+  let rule = '*';
+
+  for (let i = 0; i < labels.length; i++) {
+    const candidate = labels.slice(i).join('.');
+    if (RULES.has(`!${candidate}`)) {
+      suffixStart = i + 1; // exception: the suffix is the rule minus its leftmost label
+      rule = `!${candidate}`;
+      break;
+    }
+    if (suffixStart !== -1) continue; // longest match already found, keep looking for exceptions
+    const wildcard = ['*', ...labels.slice(i + 1)].join('.');
+    if (RULES.has(candidate)) {
+      suffixStart = i;
+      rule = candidate;
+    } else if (RULES.has(wildcard)) {
+      suffixStart = i;
+      rule = wildcard;
+    }
+  }
+
+  const knownTld = suffixStart !== -1;
+  if (!knownTld) suffixStart = labels.length - 1; // implicit '*' rule: the TLD itself
+  return {
+    suffix: labels.slice(suffixStart).join('.'),
+    rule,
+    registrable: suffixStart > 0 ? labels.slice(suffixStart - 1).join('.') : null,
+    knownTld,
+  };
+}
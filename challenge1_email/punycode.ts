@@ -0,0 +1,160 @@
+// Punycode (RFC 3492) and the IDNA label conversions built on it. No external libraries.
+
+// Bootstring parameters for Punycode (RFC 3492 section 5)
+const BASE = 36;
+const TMIN = 1;
+const TMAX = 26;
+const SKEW = 38;
+const DAMP = 700;
+const INITIAL_BIAS = 72;
+const INITIAL_N = 0x80;
+const DELIMITER = '-';
+
+const ACE_PREFIX = 'xn--'; // marks an ASCII-compatible (punycoded) label
+const LABEL_SEPARATORS = /[.。．｡]/; // full stop plus the IDNA ideographic dots
+
+// Bias adaptation (RFC 3492 section 6.1)
+function adapt(delta: number, numPoints: number, firstTime: boolean): number {
+  delta = firstTime ? Math.floor(delta / DAMP) : delta >> 1;
+  delta += Math.floor(delta / numPoints);
+  let k = 0;
+  while (delta > ((BASE - TMIN) * TMAX) >> 1) {
+    delta = Math.floor(delta / (BASE - TMIN));
+    k += BASE;
+  }
+  return k + Math.floor(((BASE - TMIN + 1) * delta) / (delta + SKEW));
+}
+
+function threshold(k: number, bias: number): number {
+  if (k <= bias) return TMIN;
+  if (k >= bias + TMAX) return TMAX;
+  return k - bias;
+}
+
+// Digits 0-25 are a-z, 26-35 are 0-9
+function digitToChar(digit: number): string {
+  return String.fromCharCode(digit < 26 ? digit + 97 : digit + 22);
+}
+
+function charToDigit(code: number): number {
+  if (code >= 48 && code <= 57) return code - 22;
+  if (code >= 65 && code <= 90) return code - 65;
+  if (code >= 97 && code <= 122) return code - 97;
+  return BASE; // not a digit
+}
+
+/**
+ * Encodes a string of Unicode code points as Punycode (without the xn-- prefix).
+ * encode('münchen') === 'mnchen-3ya'
+ */
+export function encode(input: string): string {
+  const codePoints = Array.from(input, ch => ch.codePointAt(0) as number);
+  let output = codePoints.filter(cp => cp < INITIAL_N).map(cp => String.fromCharCode(cp)).join('');
+  const basicCount = output.length;
+  if (basicCount > 0) output += DELIMITER;
+
+  let n = INITIAL_N;
+  let delta = 0;
+  let bias = INITIAL_BIAS;
+  let handled = basicCount;
+  while (handled < codePoints.length) {
+    // Next smallest code point not yet handled
+    const m = Math.min(...codePoints.filter(cp => cp >= n));
+    delta += (m - n) * (handled + 1);
+    n = m;
+    for (const cp of codePoints) {
+      if (cp < n) delta++;
+      if (cp !== n) continue;
+      let q = delta;
+      for (let k = BASE; ; k += BASE) {
+        const t = threshold(k, bias);
+        if (q < t) break;
+        output += digitToChar(t + ((q - t) % (BASE - t)));
+        q = Math.floor((q - t) / (BASE - t));
+      }
+      output += digitToChar(q);
+      bias = adapt(delta, handled + 1, handled === basicCount);
+      delta = 0;
+      handled++;
+    }
+    delta++;
+    n++;
+  }
+  return output;
+}
+
+/**
+ * Decodes Punycode (without the xn-- prefix) back to Unicode.
+ * Throws a RangeError on malformed input.
+ */
+export function decode(input: string): string {
+  const output: number[] = [];
+  const delimiter = input.lastIndexOf(DELIMITER);
+  for (let j = 0; j < delimiter; j++) {
+    const code = input.charCodeAt(j);
+    if (code >= INITIAL_N) throw new RangeError(`Non-basic code point in Punycode input "${input}"`);
+    output.push(code);
+  }
+
+  let n = INITIAL_N;
+  let bias = INITIAL_BIAS;
+  let i = 0;
+  for (let index = delimiter >= 0 ? delimiter + 1 : 0; index < input.length; ) {
+    const oldI = i;
+    let w = 1;
+    for (let k = BASE; ; k += BASE) {
+      if (index >= input.length) throw new RangeError(`Truncated Punycode input "${input}"`);
+      const digit = charToDigit(input.charCodeAt(index++));
+      if (digit >= BASE) throw new RangeError(`Invalid Punycode digit in "${input}"`);
+      i += digit * w;
+      const t = threshold(k, bias);
+      if (digit < t) break;
+      w *= BASE - t;
+    }
+    const length = output.length + 1;
+    bias = adapt(i - oldI, length, oldI === 0);
+    n += Math.floor(i / length);
+    i %= length;
+    if (n > 0x10ffff) throw new RangeError(`Punycode input "${input}" decodes past U+10FFFF`);
+    output.splice(i, 0, n);
+    i++;
+  }
+  return String.fromCodePoint(...output);
+}
+
+/**
+ * Converts a domain to its ASCII form: non-ASCII labels are NFC-normalized, lowercased
+ * and punycoded with the xn-- prefix. ASCII labels pass through unchanged.
+ * toASCII('münchen.de') === 'xn--mnchen-3ya.de'
+ */
+export function toASCII(domain: string): string {
+  return domain
+    .split(LABEL_SEPARATORS)
+    .map(label => (/[^\x00-\x7f]/.test(label) ? ACE_PREFIX + encode(label.normalize('NFC').toLowerCase()) : label))
+    .join('.');
+}
+
+/**
+ * Converts a domain to its Unicode form by decoding xn-- labels.
+ * Labels that fail to decode are left as they are.
+ */
+export function toUnicode(domain: string): string {
+  return domain
+    .split(LABEL_SEPARATORS)
+    .map(label => {
+      if (!label.toLowerCase().startsWith(ACE_PREFIX)) return label;
+      try {
+        return decode(label.slice(ACE_PREFIX.length).toLowerCase());
+      } catch {
+        return label;
+      }
+    })
+    .join('.');
+}
+
+/**
+ * Maps the IDNA ideographic full stops (。．｡) to ASCII dots so label checks see them.
+ */
+export function normalizeLabelSeparators(domain: string): string {
+  return domain.replace(new RegExp(LABEL_SEPARATORS.source, 'g'), '.');
+}
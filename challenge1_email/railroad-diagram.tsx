@@ -0,0 +1,220 @@
+import React from 'react';
+import { parseRegex, RegexNode } from './regex-safety';
+
+// Railroad (syntax) diagrams for regex subpatterns, laid out as plain SVG
+
+const CHAR_WIDTH = 7; // approximate width of one 11px monospace character
+const BOX_HEIGHT = 24;
+const GAP = 12; // horizontal track between consecutive items
+const CURVE = 16; // room for the branch curves of choices and loops
+const ROW_GAP = 8; // vertical space between stacked alternatives
+
+// A laid-out piece of diagram; the track enters on the left and leaves on the right at y + mid
+interface Block {
+  width: number;
+  height: number;
+  mid: number;
+  draw: (x: number, y: number, out: React.ReactNode[]) => void;
+}
+
+const PROPERTY_NAMES: Record<string, string> = { L: 'letter', M: 'mark', N: 'number' };
+
+// Human-readable label for a one-character matcher: '[a-zA-Z0-9\-]' -> 'a-z A-Z 0-9 -'
+function describeAtom(source: string): string {
+  const readable = (text: string) =>
+    text
+      .replace(/\\p\{(\w+)\}/g, (_, name: string) => ` ${PROPERTY_NAMES[name] ?? name} `)
+      .replace(/\\(.)/g, ' $1 ')
+      .replace(/([^\s-])-([^\s-])/g, ' $1-$2 ')
+      .trim()
+      .split(/\s+/)
+      .join(' ');
+  if (source.startsWith('[^')) return `not ${readable(source.slice(2, -1))}`;
+  if (source.startsWith('[')) return readable(source.slice(1, -1));
+  return readable(source);
+}
+
+const isLiteral = (node: RegexNode) => node.kind === 'atom' && !node.source.startsWith('[') && !/^\\[pPdDwWsS]/.test(node.source);
+
+const line = (x1: number, y1: number, x2: number, y2: number, out: React.ReactNode[]) => {
+  out.push(<path key={out.length} d={`M${x1} ${y1}H${x2}`} fill="none" stroke="#64748b" strokeWidth={1.5} />);
+};
+
+const curve = (d: string, out: React.ReactNode[]) => {
+  out.push(<path key={out.length} d={d} fill="none" stroke="#64748b" strokeWidth={1.5} />);
+};
+
+function box(label: string, literal: boolean): Block {
+  const width = label.length * CHAR_WIDTH + 16;
+  return {
+    width,
+    height: BOX_HEIGHT,
+    mid: BOX_HEIGHT / 2,
+    draw: (x, y, out) => {
+      out.push(
+        <rect
+          key={out.length}
+          x={x}
+          y={y}
+          width={width}
+          height={BOX_HEIGHT}
+          rx={literal ? BOX_HEIGHT / 2 : 3}
+          fill={literal ? '#dbeafe' : '#fff'}
+          stroke="#2563eb"
+        />
+      );
+      out.push(
+        <text key={out.length} x={x + width / 2} y={y + 16} textAnchor="middle" fontSize={11} fontFamily="monospace" fill="#1e293b">
+          {label}
+        </text>
+      );
+    },
+  };
+}
+
+const EMPTY: Block = { width: 0, height: 0, mid: 0, draw: () => undefined };
+
+function sequence(blocks: Block[]): Block {
+  if (blocks.length === 0) return EMPTY;
+  if (blocks.length === 1) return blocks[0];
+  const mid = Math.max(...blocks.map(block => block.mid));
+  const below = Math.max(...blocks.map(block => block.height - block.mid));
+  return {
+    width: blocks.reduce((sum, block) => sum + block.width, 0) + GAP * (blocks.length - 1),
+    height: mid + below,
+    mid,
+    draw: (x, y, out) => {
+      let cursor = x;
+      blocks.forEach((block, idx) => {
+        if (idx > 0) line(cursor - GAP, y + mid, cursor, y + mid, out);
+        block.draw(cursor, y + mid - block.mid, out);
+        cursor += block.width + GAP;
+      });
+    },
+  };
+}
+
+// Alternatives stacked top to bottom; the first one stays on the main track
+function choice(options: Block[]): Block {
+  if (options.length === 1) return options[0];
+  const inner = Math.max(...options.map(option => option.width));
+  const tops = options.reduce<number[]>((acc, option, idx) => [...acc, idx === 0 ? 0 : acc[idx - 1] + options[idx - 1].height + ROW_GAP], []);
+  const last = options.length - 1;
+  return {
+    width: inner + CURVE * 2,
+    height: tops[last] + options[last].height,
+    mid: options[0].mid,
+    draw: (x, y, out) => {
+      const main = y + options[0].mid;
+      const right = x + CURVE + inner;
+      options.forEach((option, idx) => {
+        const track = y + tops[idx] + option.mid;
+        option.draw(x + CURVE, y + tops[idx], out);
+        line(x + CURVE + option.width, track, right, track, out);
+        if (idx === 0) {
+          line(x, main, x + CURVE, main, out);
+          line(right, main, right + CURVE, main, out);
+        } else {
+          curve(`M${x} ${main}C${x + CURVE} ${main} ${x} ${track} ${x + CURVE} ${track}`, out);
+          curve(`M${right} ${track}C${right + CURVE} ${track} ${right} ${main} ${right + CURVE} ${main}`, out);
+        }
+      });
+    },
+  };
+}
+
+// The block once, then a return track underneath for further repetitions
+function loop(block: Block, label: string | null): Block {
+  const labelHeight = label ? 14 : 0;
+  return {
+    width: block.width + CURVE * 2,
+    height: block.height + ROW_GAP + labelHeight + 4,
+    mid: block.mid,
+    draw: (x, y, out) => {
+      const track = y + block.mid;
+      const back = y + block.height + ROW_GAP;
+      const start = x + CURVE;
+      const end = start + block.width;
+      line(x, track, start, track, out);
+      block.draw(start, y, out);
+      line(end, track, end + CURVE, track, out);
+      curve(`M${end} ${track}C${end + CURVE} ${track} ${end + CURVE} ${back} ${end} ${back}H${start}C${x} ${back} ${x} ${track} ${start} ${track}`, out);
+      if (label) {
+        out.push(
+          <text key={out.length} x={x + CURVE + block.width / 2} y={back + 14} textAnchor="middle" fontSize={10} fill="#64748b">
+            {label}
+          </text>
+        );
+      }
+    },
+  };
+}
+
+function repeatLabel(min: number, max: number): string | null {
+  if (max === Infinity) return min > 1 ? `at least ${min} times` : null;
+  return min === max ? `${min} times` : `${min} to ${max} times`;
+}
+
+function layoutSequence(nodes: RegexNode[]): Block {
+  const blocks: Block[] = [];
+  for (let i = 0; i < nodes.length; i++) {
+    // Runs of literal characters (x, n, -, -) read better as one box
+    if (isLiteral(nodes[i])) {
+      let text = '';
+      for (; i < nodes.length && isLiteral(nodes[i]); i++) text += describeAtom((nodes[i] as RegexNode & { kind: 'atom' }).source);
+      i--;
+      blocks.push(box(text, true));
+      continue;
+    }
+    blocks.push(layoutNode(nodes[i]));
+  }
+  return sequence(blocks.filter(block => block !== EMPTY));
+}
+
+function layoutNode(node: RegexNode): Block {
+  switch (node.kind) {
+    case 'atom':
+      return box(describeAtom(node.source), false);
+    case 'assertion':
+      return EMPTY;
+    case 'group':
+      return choice(node.alternatives.map(layoutSequence));
+    case 'repeat': {
+      const body = layoutNode(node.node);
+      if (node.max === 1) return node.min === 0 ? choice([EMPTY, body]) : body;
+      const repeated = loop(body, repeatLabel(Math.max(node.min, 1), node.max));
+      return node.min === 0 ? choice([EMPTY, repeated]) : repeated;
+    }
+  }
+}
+
+/**
+ * Draws a regex (sub)pattern as a railroad diagram: boxes for character sets, rounded boxes
+ * for literal text, stacked branches for alternatives and optional parts, and return tracks
+ * for repetition. Only the syntax understood by parseRegex is supported.
+ */
+export function RailroadDiagram({ pattern, title }: { pattern: string; title?: string }) {
+  const diagram = layoutSequence(parseRegex(pattern));
+  const margin = 12;
+  const width = diagram.width + margin * 2;
+  const height = diagram.height + margin * 2;
+  const track = margin + diagram.mid;
+  const out: React.ReactNode[] = [];
+  line(0, track, margin, track, out);
+  diagram.draw(margin, margin, out);
+  line(margin + diagram.width, track, width, track, out);
+
+  return (
+    <svg
+      viewBox={`0 0 ${width} ${height}`}
+      width={width}
+      style={{ maxWidth: '100%', height: 'auto' }}
+      role="img"
+      aria-label={title ?? pattern}
+    >
+      <rect x={0} y={track - 6} width={3} height={12} fill="#64748b" />
+      <rect x={width - 3} y={track - 6} width={3} height={12} fill="#64748b" />
+      {out}
+    </svg>
+  );
+}
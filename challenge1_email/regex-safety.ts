@@ -0,0 +1,302 @@
+// ReDoS checks for composed patterns: a static scan for ambiguous quantifiers plus a timing fuzzer
+
+export type RegexNode =
+  | { kind: 'atom'; source: string; start: number; end: number } // matches exactly one character
+  | { kind: 'group'; alternatives: RegexNode[][]; start: number; end: number }
+  | { kind: 'repeat'; node: RegexNode; min: number; max: number; start: number; end: number }
+  | { kind: 'assertion'; start: number; end: number }; // ^, $, \b and lookarounds: zero-width
+
+export interface RegexSafetyIssue {
+  kind: 'nested-quantifier' | 'overlapping-adjacent' | 'nullable-repeat' | 'ambiguous-alternation';
+  severity: 'high' | 'medium';
+  message: string;
+  fragment: string; // the part of the source the issue is about
+}
+
+export interface FuzzResult {
+  name: string; // which adversarial input family
+  size: number; // repetition count of the largest input tried
+  length: number; // character length of that input
+  ms: number; // match time for that input
+  exceededBudget: boolean; // stopped growing because a single match took too long
+}
+
+export interface RegexSafetyReport {
+  issues: RegexSafetyIssue[];
+  selfTest: Array<{ pattern: string; kind: RegexSafetyIssue['kind']; flagged: boolean }>; // KNOWN_UNSAFE_PATTERNS results
+  fuzz: FuzzResult[];
+  worst: FuzzResult | null;
+  safe: boolean;
+}
+
+// Characters used to decide whether two character sets overlap
+const SAMPLE_CHARS = [
+  ...Array.from({ length: 95 }, (_, i) => String.fromCharCode(32 + i)),
+  '\t', ' ', 'é', 'ü', 'ß', 'д', '中', '́', '٣',
+];
+
+/**
+ * Parses the subset of regex syntax needed for the analysis: escapes, classes, groups,
+ * lookarounds, alternation and all quantifier forms.
+ */
+export function parseRegex(source: string): RegexNode[] {
+  let i = 0;
+
+  const parseAlternatives = (): RegexNode[][] => {
+    const alternatives: RegexNode[][] = [[]];
+    while (i < source.length && source[i] !== ')') {
+      if (source[i] === '|') {
+        i++;
+        alternatives.push([]);
+        continue;
+      }
+      const node = parseQuantified();
+      alternatives[alternatives.length - 1].push(node);
+    }
+    return alternatives;
+  };
+
+  const parseAtom = (): RegexNode => {
+    const start = i;
+    const ch = source[i];
+    if (ch === '(') {
+      i++;
+      let assertion = false;
+      if (source.startsWith('?:', i)) i += 2;
+      else if (/^\?<?[=!]/.test(source.slice(i, i + 3))) {
+        assertion = true;
+        i += source[i + 1] === '<' ? 3 : 2;
+      } else if (source.startsWith('?<', i)) i = source.indexOf('>', i) + 1; // named group
+      const alternatives = parseAlternatives();
+      i++; // closing )
+      return assertion ? { kind: 'assertion', start, end: i } : { kind: 'group', alternatives, start, end: i };
+    }
+    if (ch === '^' || ch === '$') {
+      i++;
+      return { kind: 'assertion', start, end: i };
+    }
+    if (ch === '[') {
+      for (i++; i < source.length && source[i] !== ']'; i++) if (source[i] === '\\') i++;
+      i++;
+      return { kind: 'atom', source: source.slice(start, i), start, end: i };
+    }
+    if (ch === '\\') {
+      if (/[bB]/.test(source[i + 1])) {
+        i += 2;
+        return { kind: 'assertion', start, end: i };
+      }
+      i += /[pP]/.test(source[i + 1]) ? source.indexOf('}', i) + 1 - i : 2;
+      return { kind: 'atom', source: source.slice(start, i), start, end: i };
+    }
+    i++;
+    return { kind: 'atom', source: ch, start, end: i };
+  };
+
+  const parseQuantified = (): RegexNode => {
+    let node = parseAtom();
+    for (;;) {
+      const rest = source.slice(i);
+      const braces = rest.match(/^\{(\d+)(,(\d*))?\}/);
+      let min: number;
+      let max: number;
+      if (rest[0] === '*') [min, max, i] = [0, Infinity, i + 1];
+      else if (rest[0] === '+') [min, max, i] = [1, Infinity, i + 1];
+      else if (rest[0] === '?') [min, max, i] = [0, 1, i + 1];
+      else if (braces) {
+        min = Number(braces[1]);
+        max = braces[2] === undefined ? min : braces[3] === '' ? Infinity : Number(braces[3]);
+        i += braces[0].length;
+      } else return node;
+      if (source[i] === '?') i++; // lazy modifier does not change what can match
+      node = { kind: 'repeat', node, min, max, start: node.start, end: i };
+    }
+  };
+
+  // Top-level alternatives become one group, like a nested (a|b), so every branch is kept
+  const alternatives = parseAlternatives();
+  return alternatives.length === 1 ? alternatives[0] : [{ kind: 'group', alternatives, start: 0, end: source.length }];
+}
+
+// Which sample characters can start a match of the node, and whether it can match empty
+function first(node: RegexNode, flags: string): { chars: Set<string>; nullable: boolean } {
+  switch (node.kind) {
+    case 'atom': {
+      const tester = new RegExp(`^(?:${node.source})$`, flags.replace(/[gy]/g, ''));
+      return { chars: new Set(SAMPLE_CHARS.filter(ch => tester.test(ch))), nullable: false };
+    }
+    case 'assertion':
+      return { chars: new Set(), nullable: true };
+    case 'repeat': {
+      const inner = first(node.node, flags);
+      return { chars: inner.chars, nullable: node.min === 0 || inner.nullable };
+    }
+    case 'group': {
+      const chars = new Set<string>();
+      let nullable = false;
+      for (const alternative of node.alternatives) {
+        const result = firstOfSequence(alternative, flags);
+        result.chars.forEach(ch => chars.add(ch));
+        nullable = nullable || result.nullable;
+      }
+      return { chars, nullable };
+    }
+  }
+}
+
+function firstOfSequence(sequence: RegexNode[], flags: string): { chars: Set<string>; nullable: boolean } {
+  const chars = new Set<string>();
+  for (const node of sequence) {
+    const result = first(node, flags);
+    result.chars.forEach(ch => chars.add(ch));
+    if (!result.nullable) return { chars, nullable: false };
+  }
+  return { chars, nullable: true };
+}
+
+// Unbounded repeats that can end a match of the sequence (the ones that could swallow what follows)
+function trailingRepeats(sequence: RegexNode[], flags: string): Array<RegexNode & { kind: 'repeat' }> {
+  const found: Array<RegexNode & { kind: 'repeat' }> = [];
+  for (let k = sequence.length - 1; k >= 0; k--) {
+    const node = sequence[k];
+    if (node.kind === 'repeat' && node.max === Infinity) found.push(node);
+    if (node.kind === 'repeat') found.push(...trailingRepeats([node.node], flags));
+    if (node.kind === 'group') node.alternatives.forEach(alternative => found.push(...trailingRepeats(alternative, flags)));
+    if (!first(node, flags).nullable) break;
+  }
+  return found;
+}
+
+const overlaps = (a: Set<string>, b: Set<string>) => Array.from(a).some(ch => b.has(ch));
+
+/**
+ * Statically inspects a pattern for the shapes behind catastrophic backtracking:
+ * an unbounded repeat whose body can end in a repeat that also matches the body's start
+ * ((a+)+, (\.x+)* when x matches '.'), nullable bodies under * or +, and two adjacent
+ * unbounded repeats over overlapping characters (x+y* with x and y sharing characters),
+ * and repeated alternations whose branches can start with the same character ((a|ab)*).
+ */
+export function analyzeRegex(regex: RegExp): RegexSafetyIssue[] {
+  const { source, flags } = regex;
+  const issues: RegexSafetyIssue[] = [];
+  const fragment = (node: RegexNode) => source.slice(node.start, node.end);
+
+  const visitSequence = (sequence: RegexNode[]) => {
+    sequence.forEach((node, k) => {
+      visitNode(node);
+      const next = sequence[k + 1];
+      if (!next || next.kind !== 'repeat' || next.max !== Infinity) return;
+      for (const tail of trailingRepeats([node], flags)) {
+        if (overlaps(first(tail.node, flags).chars, first(next, flags).chars)) {
+          issues.push({
+            kind: 'overlapping-adjacent',
+            severity: 'medium',
+            message: `${fragment(tail)} and the following ${fragment(next)} can match the same characters, so input can be split between them in many ways`,
+            fragment: source.slice(tail.start, next.end),
+          });
+        }
+      }
+    });
+  };
+
+  const visitNode = (node: RegexNode) => {
+    if (node.kind === 'group') node.alternatives.forEach(visitSequence);
+    if (node.kind !== 'repeat') return;
+    visitNode(node.node);
+    if (node.max > 1 && node.node.kind === 'group') {
+      const branches = node.node.alternatives.filter(alternative => alternative.length > 0);
+      branches.forEach((branch, a) => {
+        const other = branches.slice(a + 1).find(next => overlaps(firstOfSequence(branch, flags).chars, firstOfSequence(next, flags).chars));
+        if (!other) return;
+        const text = (sequence: RegexNode[]) => source.slice(sequence[0].start, sequence[sequence.length - 1].end);
+        issues.push({
+          kind: 'ambiguous-alternation',
+          severity: node.max === Infinity ? 'high' : 'medium',
+          message: `branches ${text(branch)} and ${text(other)} of ${fragment(node)} can start with the same character, so each repetition can try both`,
+          fragment: fragment(node),
+        });
+      });
+    }
+    if (node.max !== Infinity) return;
+    const body = first(node.node, flags);
+    if (body.nullable) {
+      issues.push({ kind: 'nullable-repeat', severity: 'high', message: `${fragment(node)} repeats a body that can match the empty string`, fragment: fragment(node) });
+      return;
+    }
+    for (const inner of trailingRepeats([node.node], flags)) {
+      if (inner === node) continue;
+      if (overlaps(first(inner.node, flags).chars, body.chars)) {
+        issues.push({
+          kind: 'nested-quantifier',
+          severity: 'high',
+          message: `${fragment(inner)} inside ${fragment(node)} can also match the start of the next repetition (exponential backtracking)`,
+          fragment: fragment(node),
+        });
+      }
+    }
+  };
+
+  visitSequence(parseRegex(source));
+  return issues;
+}
+
+// Patterns analyzeRegex must flag, with the issue kind expected; the ReDoS panel runs them as a self-test
+export const KNOWN_UNSAFE_PATTERNS: Array<{ regex: RegExp; kind: RegexSafetyIssue['kind'] }> = [
+  { regex: /^(a+)+$/, kind: 'nested-quantifier' },
+  { regex: /^x$|^(a+)+$/, kind: 'nested-quantifier' },
+  { regex: /^(a|a)*$/, kind: 'ambiguous-alternation' },
+  { regex: /^(a|ab)*c$/, kind: 'ambiguous-alternation' },
+  { regex: /^(a?)*$/, kind: 'nullable-repeat' },
+  { regex: /^\d+\d*$/, kind: 'overlapping-adjacent' },
+];
+
+// Adversarial input families aimed at the local part, the domain labels and the TLD
+export const ADVERSARIAL_INPUTS: Array<{ name: string; build: (n: number) => string }> = [
+  { name: 'aaaa…!@', build: n => `${'a'.repeat(n)}!@` },
+  { name: 'a.a.a…!@', build: n => `${'a.'.repeat(n)}a!@` },
+  { name: 'a@a-a-a…!', build: n => `a@${'a-'.repeat(n)}a!` },
+  { name: 'a@a.a.a…!', build: n => `a@${'a.'.repeat(n)}a!` },
+  { name: 'a@aaaa….a!', build: n => `a@${'a'.repeat(n)}.${'a'.repeat(n)}!` },
+  { name: 'a@a.xn--aaa…!', build: n => `a@a.xn--${'a'.repeat(n)}!` },
+];
+
+function now(): number {
+  return typeof performance !== 'undefined' ? performance.now() : Date.now();
+}
+
+/**
+ * Times the regex on each adversarial family at growing sizes: +4 at a time up to 64
+ * (so exponential blow-ups are caught early), then doubling up to maxSize. A family stops
+ * growing as soon as one match exceeds budgetMs.
+ */
+export function fuzzRegex(
+  regex: RegExp,
+  inputs = ADVERSARIAL_INPUTS,
+  options: { budgetMs?: number; maxSize?: number } = {}
+): FuzzResult[] {
+  const { budgetMs = 50, maxSize = 4096 } = options;
+  const tester = new RegExp(regex.source, regex.flags.replace(/[gy]/g, ''));
+  return inputs.map(({ name, build }) => {
+    let result: FuzzResult = { name, size: 0, length: 0, ms: 0, exceededBudget: false };
+    for (let n = 4; n <= maxSize; n = n < 64 ? n + 4 : n * 2) {
+      const input = build(n);
+      const start = now();
+      tester.test(input);
+      const ms = now() - start;
+      result = { name, size: n, length: input.length, ms, exceededBudget: ms > budgetMs };
+      if (result.exceededBudget) break;
+    }
+    return result;
+  });
+}
+
+export function checkRegexSafety(regex: RegExp, options: { budgetMs?: number; maxSize?: number } = {}): RegexSafetyReport {
+  const issues = analyzeRegex(regex);
+  const fuzz = fuzzRegex(regex, ADVERSARIAL_INPUTS, options);
+  const selfTest = KNOWN_UNSAFE_PATTERNS.map(({ regex: unsafe, kind }) => ({
+    pattern: unsafe.source,
+    kind,
+    flagged: analyzeRegex(unsafe).some(issue => issue.kind === kind),
+  }));
+  const worst = fuzz.reduce<FuzzResult | null>((max, result) => (!max || result.ms > max.ms ? result : max), null);
+  return { issues, selfTest, fuzz, worst, safe: issues.length === 0 && fuzz.every(result => !result.exceededBudget) };
+}
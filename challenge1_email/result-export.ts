@@ -0,0 +1,181 @@
+// Export of test runs as JUnit XML, JSON and CSV, plus loading a saved JSON run to diff against
+
+export interface ExportedResult {
+  suite: string; // 'TEST_CASES' or 'custom'
+  email: string;
+  expected: boolean;
+  actual: boolean;
+  passed: boolean;
+  description: string; // test case description or custom note
+  reason: string | null;
+}
+
+export type RunMode = 'practical' | 'rfc'; // the validator's ValidationMode
+
+const RUN_MODES: RunMode[] = ['practical', 'rfc'];
+const isRunMode = (value: unknown): value is RunMode => RUN_MODES.includes(value as RunMode);
+
+export interface ExportedRun {
+  format: 'email-validator-run';
+  version: 1;
+  exportedAt: string; // ISO timestamp
+  mode: RunMode;
+  checkPublicSuffix: boolean;
+  results: ExportedResult[];
+}
+
+export interface ResultChange {
+  before: ExportedResult;
+  after: ExportedResult;
+  fields: Array<'expected' | 'actual' | 'passed' | 'reason'>;
+}
+
+export interface RunDiff {
+  added: ExportedResult[]; // only in the current run
+  removed: ExportedResult[]; // only in the previous run
+  changed: ResultChange[];
+  unchanged: number;
+  settings: string[]; // settings that differ between the runs, so expectation changes may not be regressions
+}
+
+export function createRun(results: ExportedResult[], mode: RunMode, checkPublicSuffix: boolean): ExportedRun {
+  return { format: 'email-validator-run', version: 1, exportedAt: new Date().toISOString(), mode, checkPublicSuffix, results };
+}
+
+const escapeXml = (text: string) =>
+  text.replace(/[<>&"']/g, ch => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', "'": '&apos;' })[ch] as string);
+
+/**
+ * JUnit XML as CI dashboards read it: one <testsuite> per suite, one <testcase> per
+ * address, with a <failure> for every case whose verdict differed from the expectation.
+ */
+export function toJUnitXml(run: ExportedRun): string {
+  const suites = Array.from(new Set(run.results.map(result => result.suite)));
+  const failures = (results: ExportedResult[]) => results.filter(result => !result.passed).length;
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="email-validator (${escapeXml(run.mode)})" tests="${run.results.length}" failures="${failures(run.results)}">`,
+  ];
+  for (const suite of suites) {
+    const results = run.results.filter(result => result.suite === suite);
+    lines.push(`  <testsuite name="${escapeXml(suite)}" tests="${results.length}" failures="${failures(results)}" timestamp="${run.exportedAt}">`);
+    for (const result of results) {
+      const name = escapeXml(result.description ? `${result.description}: ${result.email}` : result.email);
+      const attributes = `classname="email-validator.${escapeXml(suite)}" name="${name}"`;
+      if (result.passed) {
+        lines.push(`    <testcase ${attributes}/>`);
+        continue;
+      }
+      lines.push(`    <testcase ${attributes}>`);
+      lines.push(`      <failure message="Expected ${result.expected}, got ${result.actual}">${escapeXml(result.reason ?? '')}</failure>`);
+      lines.push('    </testcase>');
+    }
+    lines.push('  </testsuite>');
+  }
+  lines.push('</testsuites>');
+  return `${lines.join('\n')}\n`;
+}
+
+export function toJson(run: ExportedRun): string {
+  return `${JSON.stringify(run, null, 2)}\n`;
+}
+
+// Quotes a CSV field when it holds a comma, quote or line break ("" escapes quotes)
+const csvField = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+export function toCsv(run: ExportedRun): string {
+  const header = ['suite', 'email', 'expected', 'actual', 'passed', 'description', 'reason'];
+  const rows = run.results.map(result =>
+    [result.suite, result.email, String(result.expected), String(result.actual), String(result.passed), result.description, result.reason ?? '']
+      .map(csvField)
+      .join(',')
+  );
+  return `${[header.join(','), ...rows].join('\n')}\n`;
+}
+
+/**
+ * Reads a run saved by toJson. Throws an Error naming the first problem when the
+ * text is not such a file.
+ */
+export function parseRunJson(text: string): ExportedRun {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Not valid JSON: ${(error as Error).message}`);
+  }
+  const run = data as Partial<ExportedRun> | null;
+  if (!run || run.format !== 'email-validator-run') throw new Error('Not an exported email validator run');
+  if (run.version !== 1) throw new Error(`Unsupported run version ${String(run.version)}`);
+  if (!isRunMode(run.mode)) throw new Error(`Unknown mode ${JSON.stringify(run.mode)}; expected ${RUN_MODES.join(' or ')}`);
+  if (typeof run.exportedAt !== 'string' || Number.isNaN(Date.parse(run.exportedAt))) throw new Error('Run needs an exportedAt timestamp');
+  if (typeof run.checkPublicSuffix !== 'boolean') throw new Error('Run needs a boolean checkPublicSuffix');
+  if (!Array.isArray(run.results)) throw new Error('Run has no results array');
+  // suite keys the diff, so it is required; passed, description and reason have safe defaults
+  const results = run.results.map((result: Partial<ExportedResult> | null, idx): ExportedResult => {
+    if (typeof result?.suite !== 'string' || typeof result.email !== 'string' || typeof result.expected !== 'boolean' || typeof result.actual !== 'boolean') {
+      throw new Error(`Result ${idx + 1} needs suite, email, expected and actual`);
+    }
+    if (result.passed !== undefined && typeof result.passed !== 'boolean') throw new Error(`Result ${idx + 1} has a non-boolean passed`);
+    if (result.description !== undefined && typeof result.description !== 'string') throw new Error(`Result ${idx + 1} has a non-string description`);
+    if (result.reason !== undefined && result.reason !== null && typeof result.reason !== 'string') {
+      throw new Error(`Result ${idx + 1} has a reason that is neither a string nor null`);
+    }
+    return {
+      suite: result.suite,
+      email: result.email,
+      expected: result.expected,
+      actual: result.actual,
+      passed: result.passed ?? result.expected === result.actual,
+      description: result.description ?? '',
+      reason: result.reason ?? null,
+    };
+  });
+  return {
+    format: run.format,
+    version: run.version,
+    exportedAt: run.exportedAt,
+    mode: run.mode,
+    checkPublicSuffix: run.checkPublicSuffix,
+    results,
+  };
+}
+
+// Matches results by suite and email; repeats of the same address pair up in order
+function keyed(results: ExportedResult[]): Map<string, ExportedResult> {
+  const map = new Map<string, ExportedResult>();
+  const seen = new Map<string, number>();
+  for (const result of results) {
+    const base = `${result.suite}\u0000${result.email}`;
+    const count = seen.get(base) ?? 0;
+    seen.set(base, count + 1);
+    map.set(`${base}\u0000${count}`, result);
+  }
+  return map;
+}
+
+export function diffRuns(previous: ExportedRun, current: ExportedRun): RunDiff {
+  const before = keyed(previous.results);
+  const after = keyed(current.results);
+  const diff: RunDiff = { added: [], removed: [], changed: [], unchanged: 0, settings: [] };
+  const onOff = (on: boolean) => (on ? 'on' : 'off');
+  if (previous.mode !== current.mode) diff.settings.push(`mode ${previous.mode} -> ${current.mode}`);
+  if (previous.checkPublicSuffix !== current.checkPublicSuffix) {
+    diff.settings.push(`public suffix check ${onOff(previous.checkPublicSuffix)} -> ${onOff(current.checkPublicSuffix)}`);
+  }
+
+  for (const [key, result] of after) {
+    const old = before.get(key);
+    if (!old) {
+      diff.added.push(result);
+      continue;
+    }
+    const fields = (['expected', 'actual', 'passed', 'reason'] as const).filter(field => (old[field] ?? null) !== (result[field] ?? null));
+    if (fields.length > 0) diff.changed.push({ before: old, after: result, fields: [...fields] });
+    else diff.unchanged++;
+  }
+  for (const [key, result] of before) {
+    if (!after.has(key)) diff.removed.push(result);
+  }
+  return diff;
+}
@@ -1,7 +1,7 @@
 import React, { useState } from 'react';
 
 // Email validation function
-function validateEmail(email: string): boolean {
+export function validateEmail(email: string): boolean {
   const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
   return emailRegex.test(email);
 }
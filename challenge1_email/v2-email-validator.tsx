@@ -1,7 +1,7 @@
 import React, { useState } from 'react';
 
 // Email validation function using a single regex
-function isValidEmail(email: string): boolean {
+export function isValidEmail(email: string): boolean {
   // Regex breakdown:
   // ^[a-zA-Z0-9]+(?:\.[a-zA-Z0-9]+)*(?:\+[a-zA-Z0-9]+)?
   //   - Local part: starts with alphanumeric, can have dots (but not consecutive, not at start/end)
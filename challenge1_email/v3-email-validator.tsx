@@ -1,142 +1,1477 @@
-import React, { useState } from 'react';
-import { CheckCircle, XCircle, Play } from 'lucide-react';
+import React, { useEffect, useId, useMemo, useRef, useState } from 'react';
+import { CheckCircle, XCircle, Play, Upload, Download, Trash2 } from 'lucide-react';
+import { normalizeLabelSeparators, toASCII, toUnicode } from './punycode';
+import { matchPublicSuffix, PUBLIC_SUFFIX_VERSION, SuffixMatch } from './public-suffix';
+import { suggestEmail } from './domain-suggestions';
+import { EmailTag, tagEmail } from './email-classification';
+import { AddressRow, BulkProgress, BulkResult, parseAddressFile, validateInChunks } from './bulk-validation';
+import { compareValidators, scoreValidators, ValidatorImplementation } from './compare-validators';
+import { checkRegexSafety, RegexSafetyReport } from './regex-safety';
+import { failuresToTestCases, PropertyRunResult, runPropertyFuzz } from './property-fuzz';
+import { RailroadDiagram } from './railroad-diagram';
+import { createFakeResolver, DEMO_DNS_ZONES, DnsResolver, DomainVerificationResult, DomainVerificationStatus, lookupDomain, verifyEmailDomain } from './domain-verification';
+import { createRun, diffRuns, ExportedResult, ExportedRun, parseRunJson, toCsv, toJson, toJUnitXml } from './result-export';
+import { validateEmail as validateEmailV1 } from './v1-email-validator';
+import { isValidEmail as isValidEmailV2 } from './v2-email-validator';
+
+/**
+ * Validation policy: the settings behind LOCAL_CHAR and TLD plus domain restrictions.
+ * compileEmailPolicy turns a policy into a validator; DEFAULT_EMAIL_POLICY is practical mode.
+ */
+export interface EmailPolicy {
+  unicodeLocal: boolean; // letters/digits in any script (RFC 6531) in the local part, or ASCII only
+  localSymbols: string; // symbols allowed in the local part besides letters, digits and separating dots
+  minTldLength: number;
+  maxTldLength: number;
+  allowedDomains: string[]; // when non-empty, only these domains and their subdomains are accepted
+  blockedDomains: string[]; // these domains and their subdomains are rejected
+  maxSubdomainDepth: number | null; // labels allowed in front of the registrable domain; null for no limit
+}
+
+// RFC 5322 atext symbols a policy may allow, minus the # that the practical quick checks always reject
+export const POLICY_LOCAL_SYMBOLS = "!$%&'*+-/=?^_`{|}~";
+
+export const DEFAULT_EMAIL_POLICY: EmailPolicy = {
+  unicodeLocal: true,
+  localSymbols: '_%+-',
+  minTldLength: 2,
+  maxTldLength: 63,
+  allowedDomains: [],
+  blockedDomains: [],
+  maxSubdomainDepth: null,
+};
+
+function localCharClass(policy: EmailPolicy): string {
+  const symbols = Array.from(new Set(policy.localSymbols))
+    .filter(ch => POLICY_LOCAL_SYMBOLS.includes(ch))
+    .map(ch => (/[\\\]\-^]/.test(ch) ? `\\${ch}` : ch))
+    .join('');
+  return `[${policy.unicodeLocal ? '\\p{L}\\p{M}\\p{N}' : 'a-zA-Z0-9'}${symbols}]`;
+}
+
+function tldPattern(policy: EmailPolicy): string {
+  return `(?:[a-zA-Z]{${policy.minTldLength},${policy.maxTldLength}}|[xX][nN]--[a-zA-Z0-9\\-]{1,59})`; // ACE prefix in any case, like toUnicode
+}
 
 // Regex subpatterns built for readability and safety
-const LOCAL_CHAR = '[a-zA-Z0-9._%+\\-]'; // allowed chars in local part
+// Dots are left out of LOCAL_CHAR: with them, LOCAL_PART could split 'a.a.a' between its two
+// quantifiers in exponentially many ways (see regex-safety.ts)
+const LOCAL_CHAR = localCharClass(DEFAULT_EMAIL_POLICY); // letters/digits in any script (RFC 6531) plus _%+-
 const LOCAL_PART = `${LOCAL_CHAR}+(?:\\.${LOCAL_CHAR}+)*`; // no leading/trailing/consecutive dots
 
-const LABEL_CHAR = '[a-zA-Z0-9](?:[a-zA-Z0-9\\-]*[a-zA-Z0-9])?'; // label: no leading/trailing hyphen
+const LABEL_CHAR = '[a-zA-Z0-9](?:[a-zA-Z0-9\\-]*[a-zA-Z0-9])?'; // label: no leading/trailing hyphen (IDN labels are checked in punycode form)
 const DOMAIN_LABELS = `${LABEL_CHAR}(?:\\.${LABEL_CHAR})*`; // one or more labels separated by dots
 
-const TLD = '[a-zA-Z]{2,63}'; // letters only, 2-63 chars
+const TLD = tldPattern(DEFAULT_EMAIL_POLICY); // letters only, 2-63 chars, or a punycoded IDN TLD
+
+// Combined regex: anchored to prevent partial matches; tested against the ASCII (punycode) domain
+const EMAIL_REGEX = new RegExp(`^${LOCAL_PART}@${DOMAIN_LABELS}\\.${TLD}$`, 'u');
+const LOCAL_PART_REGEX = new RegExp(`^${LOCAL_PART}$`, 'u'); // used to pinpoint regex failures
+
+// The regexes validatePractical runs, built from a policy
+interface PolicyPatterns {
+  policy: EmailPolicy;
+  email: RegExp;
+  localPart: RegExp;
+  tld: RegExp;
+}
+
+const DEFAULT_PATTERNS: PolicyPatterns = {
+  policy: DEFAULT_EMAIL_POLICY,
+  email: EMAIL_REGEX,
+  localPart: LOCAL_PART_REGEX,
+  tld: new RegExp(`^${TLD}$`),
+};
+
+export const EMAIL_REJECTION_CODES = [
+  'empty',
+  'whitespace',
+  'consecutive-dots',
+  'missing-at',
+  'multiple-at',
+  'local-empty',
+  'local-edge-dot',
+  'local-invalid-char',
+  'domain-empty',
+  'domain-edge-dot',
+  'domain-edge-hyphen',
+  'label-edge-hyphen',
+  'domain-invalid-char',
+  'unbalanced-quote',
+  'unbalanced-comment',
+  'invalid-address-literal',
+  'missing-tld',
+  'invalid-tld',
+  'numeric-tld',
+  'local-too-long',
+  'label-too-long',
+  'domain-too-long',
+  'address-too-long',
+  'unknown-tld',
+  'bare-suffix',
+  'domain-not-allowed',
+  'domain-blocked',
+  'subdomain-too-deep',
+  'pattern-mismatch',
+] as const;
+
+export type EmailRejectionCode = typeof EMAIL_REJECTION_CODES[number];
+
+// practical: the everyday subset described below; rfc: full RFC 5321/5322 addr-spec
+export type ValidationMode = 'practical' | 'rfc';
+
+export interface EmailValidationResult {
+  valid: boolean;
+  reason: string | null; // human-readable explanation, null when valid
+  code: EmailRejectionCode | null;
+  span: [number, number] | null; // [start, end) offsets of the offending characters
+  suffix?: SuffixMatch; // set when the public suffix check ran
+}
+
+export interface ValidationOptions {
+  checkPublicSuffix?: boolean; // reject unknown TLDs and bare public suffixes like co.uk
+}
+
+const VALID_RESULT: EmailValidationResult = { valid: true, reason: null, code: null, span: null };
+
+function reject(code: EmailRejectionCode, reason: string, span: [number, number] | null = null): EmailValidationResult {
+  return { valid: false, reason, code, span };
+}
+
+// RFC 5321 section 4.5.3.1 size limits, in octets (UTF-8 for local parts, punycode for domains)
+const MAX_LOCAL_LENGTH = 64;
+const MAX_LABEL_LENGTH = 63;
+const MAX_DOMAIN_LENGTH = 253; // 255-octet wire format minus the length prefix and root label
+const MAX_ADDRESS_LENGTH = 254; // 256-octet path minus the angle brackets
+
+function utf8Length(text: string): number {
+  return new TextEncoder().encode(text).length;
+}
+
+function checkLengths(local: string, localStart: number, domain: string, domainStart: number): EmailValidationResult | null {
+  const localLength = utf8Length(local);
+  if (localLength > MAX_LOCAL_LENGTH) {
+    return reject('local-too-long', `Local part is ${localLength} octets; the limit is ${MAX_LOCAL_LENGTH}`, [localStart, localStart + local.length]);
+  }
+  let labelStart = domainStart;
+  for (const label of domain.split('.')) {
+    const labelLength = toASCII(label).length;
+    if (labelLength > MAX_LABEL_LENGTH) {
+      return reject('label-too-long', `Domain label at position ${labelStart + 1} is ${labelLength} octets; the limit is ${MAX_LABEL_LENGTH}`, [labelStart, labelStart + label.length]);
+    }
+    labelStart += label.length + 1;
+  }
+  const domainEnd = domainStart + domain.length;
+  const domainLength = toASCII(domain).length;
+  if (domainLength > MAX_DOMAIN_LENGTH) {
+    return reject('domain-too-long', `Domain is ${domainLength} octets; the limit is ${MAX_DOMAIN_LENGTH}`, [domainStart, domainEnd]);
+  }
+  const addressLength = localLength + 1 + domainLength;
+  if (addressLength > MAX_ADDRESS_LENGTH) {
+    return reject('address-too-long', `Address is ${addressLength} octets; the limit is ${MAX_ADDRESS_LENGTH}`, [localStart, domainEnd]);
+  }
+  return null;
+}
 
-// Combined regex: anchored to prevent partial matches
-const EMAIL_REGEX = new RegExp(`^${LOCAL_PART}@${DOMAIN_LABELS}\\.${TLD}$`);
+// Optional offline TLD check against the bundled public suffix list snapshot
+function checkPublicSuffix(domain: string, domainStart: number): EmailValidationResult {
+  const suffix = matchPublicSuffix(domain);
+  const labels = domain.split('.');
+  const suffixLabelCount = suffix.suffix.split('.').length;
+  const suffixStart = domainStart + domain.length - labels.slice(-suffixLabelCount).join('.').length;
+  const span: [number, number] = [suffixStart, domainStart + domain.length];
+  if (!suffix.knownTld) {
+    return { ...reject('unknown-tld', `TLD "${suffix.suffix}" is not in the public suffix list (${PUBLIC_SUFFIX_VERSION})`, span), suffix };
+  }
+  if (!suffix.registrable) {
+    return { ...reject('bare-suffix', `"${suffix.suffix}" is a public suffix, not a registrable domain (rule ${suffix.rule})`, span), suffix };
+  }
+  return { ...VALID_RESULT, suffix };
+}
+
+// U-labels (RFC 5890) may only hold letters, marks, digits and hyphens
+function checkULabels(domain: string, domainStart: number): EmailValidationResult | null {
+  const badLabel = domain.split('.').find(label => /[^\x00-\x7f]/.test(label) && !/^[\p{L}\p{M}\p{N}-]+$/u.test(label));
+  if (!badLabel) return null;
+  const pos = domainStart + domain.indexOf(badLabel);
+  return reject('domain-invalid-char', `Domain label "${badLabel}" contains a character not allowed in IDNs`, [pos, pos + badLabel.length]);
+}
 
 /**
- * Validates an email address using practical real-world rules.
- * Accepts: letters, digits, ._%+- in local part; hyphens/underscores; long TLDs; subdomains
- * Rejects: whitespace, consecutive dots, invalid chars, quoted strings, numeric-only TLDs
+ * TLD rules applied to the decoded (Unicode) form, so punycoded and Unicode TLDs get the same
+ * checks as ASCII ones: digits-only TLDs are rejected in every script, and with `lengths`
+ * (practical mode) an IDN TLD must have as many letters as an ASCII one ('a@b.é' is as short as 'a@b.c').
  */
-export function isValidEmail(email: string): boolean {
-  if (!email || typeof email !== 'string') return false;
-  
+function checkTld(tld: string, tldStart: number, lengths: { minTldLength: number; maxTldLength: number } | null): EmailValidationResult | null {
+  const decoded = toUnicode(tld).normalize('NFC');
+  const span: [number, number] = [tldStart, tldStart + tld.length];
+  if (/^\p{N}+$/u.test(decoded)) return reject('numeric-tld', `TLD "${tld}" is numeric`, span);
+  if (!lengths || !/[^\x00-\x7f]|^xn--/i.test(tld)) return null; // ASCII TLDs are checked by the TLD pattern
+  const letters = Array.from(decoded.replace(/\p{M}/gu, '')).length;
+  if (letters < lengths.minTldLength || letters > lengths.maxTldLength) {
+    return reject('invalid-tld', `TLD must be ${lengths.minTldLength}-${lengths.maxTldLength} letters`, span);
+  }
+  return null;
+}
+
+/**
+ * Practical-mode checks: quick rejections first, then the combined EMAIL_REGEX.
+ */
+function validatePractical(email: string, options: ValidationOptions, patterns: PolicyPatterns = DEFAULT_PATTERNS): EmailValidationResult {
+  if (!email || typeof email !== 'string') return reject('empty', 'Email is empty');
+
   // Quick checks before regex
-  if (/\s/.test(email)) return false; // reject any whitespace
-  if (email.includes('..')) return false; // reject consecutive dots anywhere
-  if (!email.includes('@')) return false; // must have exactly one @
-  if (email.indexOf('@') !== email.lastIndexOf('@')) return false; // only one @
-  
-  const [local, domain] = email.split('@');
-  
+  const space = email.search(/\s/);
+  if (space !== -1) return reject('whitespace', `Whitespace at position ${space + 1}`, [space, space + 1]);
+  const dots = email.indexOf('..');
+  if (dots !== -1) return reject('consecutive-dots', `Consecutive dots at position ${dots + 1}`, [dots, dots + 2]);
+  const at = email.indexOf('@');
+  if (at === -1) return reject('missing-at', 'Missing @ separator');
+  const secondAt = email.indexOf('@', at + 1);
+  if (secondAt !== -1) return reject('multiple-at', `Extra @ at position ${secondAt + 1}`, [secondAt, secondAt + 1]);
+
+  const local = email.slice(0, at);
+  const domain = email.slice(at + 1);
+  const domainStart = at + 1;
+
   // Check local part boundaries
-  if (local.startsWith('.') || local.endsWith('.')) return false;
-  
+  if (!local) return reject('local-empty', 'Local part before @ is empty', [0, 0]);
+  if (local.startsWith('.')) return reject('local-edge-dot', 'Local part starts with a dot', [0, 1]);
+  if (local.endsWith('.')) return reject('local-edge-dot', 'Local part ends with a dot', [at - 1, at]);
+
   // Check for invalid characters in local part
-  if (/["()\[\]\\#]/.test(local)) return false;
-  
+  const badChar = local.search(/["()\[\]\\#]/);
+  if (badChar !== -1) {
+    return reject('local-invalid-char', `Invalid character ${local[badChar]} at position ${badChar + 1}`, [badChar, badChar + 1]);
+  }
+
   // Check domain structure
-  if (!domain || domain.startsWith('.') || domain.endsWith('.')) return false;
-  if (domain.startsWith('-') || domain.endsWith('-')) return false;
-  if (domain.includes('.-') || domain.includes('-.')) return false;
-  
-  // Check TLD is not numeric-only
-  const tld = domain.split('.').pop();
-  if (tld && /^\d+$/.test(tld)) return false;
-  
-  // Final regex validation
-  return EMAIL_REGEX.test(email);
+  if (!domain) return reject('domain-empty', 'Domain after @ is empty', [domainStart, domainStart]);
+  if (domain.startsWith('.')) return reject('domain-edge-dot', 'Domain starts with a dot', [domainStart, domainStart + 1]);
+  if (domain.endsWith('.')) return reject('domain-edge-dot', 'Domain ends with a dot', [email.length - 1, email.length]);
+  if (domain.startsWith('-')) return reject('domain-edge-hyphen', 'Domain starts with a hyphen', [domainStart, domainStart + 1]);
+  if (domain.endsWith('-')) return reject('domain-edge-hyphen', 'Domain ends with a hyphen', [email.length - 1, email.length]);
+  const edgeHyphen = domain.search(/\.-|-\./);
+  if (edgeHyphen !== -1) {
+    const pos = domainStart + edgeHyphen;
+    return reject('label-edge-hyphen', `Domain label starts or ends with a hyphen at position ${pos + 1}`, [pos, pos + 2]);
+  }
+
+  const labelError = checkULabels(domain, domainStart);
+  if (labelError) return labelError;
+
+  // Check RFC length limits
+  const lengthError = checkLengths(local, 0, domain, domainStart);
+  if (lengthError) return lengthError;
+
+  // Check TLD is not numeric-only, and IDN TLD lengths on the decoded form
+  const tld = domain.split('.').pop() ?? '';
+  const tldError = checkTld(tld, email.length - tld.length, patterns.policy);
+  if (tldError) return tldError;
+
+  // Final regex validation, with IDN labels converted to punycode first
+  const asciiDomain = toASCII(domain);
+  if (!patterns.email.test(`${local}@${asciiDomain}`)) {
+    if (!patterns.localPart.test(local)) return reject('pattern-mismatch', 'Local part does not match LOCAL_PART', [0, at]);
+    if (!domain.includes('.')) return reject('missing-tld', 'Domain has no TLD', [domainStart, email.length]);
+    if (!patterns.tld.test(asciiDomain.split('.').pop() ?? '')) {
+      const { minTldLength, maxTldLength } = patterns.policy;
+      return reject('invalid-tld', `TLD must be ${minTldLength}-${maxTldLength} letters`, [email.length - tld.length, email.length]);
+    }
+    return reject('pattern-mismatch', 'Domain does not match DOMAIN_LABELS.TLD', [domainStart, email.length]);
+  }
+  return options.checkPublicSuffix ? checkPublicSuffix(domain, domainStart) : VALID_RESULT;
+}
+
+// RFC 5322 atext: letters, digits and these printable symbols (dot-atom building block),
+// extended by RFC 6531 with any non-ASCII character
+const ATEXT = /[a-zA-Z0-9!#$%&'*+\-/=?^_`{|}~]|[^\x00-\x7f\s]/;
+const LET_DIG = /[a-zA-Z0-9]|[^\x00-\x7f\s]/;
+const QTEXT = /[\x20-\x7e\t]|[^\x00-\x7f]/;
+
+function isIPv4(literal: string): boolean {
+  const octets = literal.split('.');
+  return octets.length === 4 && octets.every(octet => /^(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)$/.test(octet));
+}
+
+function isIPv6(literal: string): boolean {
+  const halves = literal.split('::');
+  if (halves.length > 2) return false;
+  const groups = halves.flatMap(half => (half === '' ? [] : half.split(':')));
+  let slots = 0;
+  for (let i = 0; i < groups.length; i++) {
+    if (i === groups.length - 1 && groups[i].includes('.')) {
+      if (!isIPv4(groups[i])) return false; // embedded IPv4 tail fills two groups
+      slots += 2;
+    } else if (/^[0-9a-fA-F]{1,4}$/.test(groups[i])) {
+      slots++;
+    } else {
+      return false;
+    }
+  }
+  return halves.length === 2 ? slots <= 7 : slots === 8;
+}
+
+/**
+ * RFC-mode checks: a small scanner over the RFC 5322 addr-spec grammar, with the domain
+ * restricted to what RFC 5321 can deliver to (hostnames or bracketed address literals).
+ * Accepts: dot-atom or quoted-string local parts, (comments) at either edge of the local
+ * part or domain, single-label domains, [IPv4], [IPv6:...] and [tag:content] literals.
+ * Whitespace is only allowed inside quoted strings and comments; all-numeric TLDs stay
+ * rejected per RFC 3696. Length limits exclude comments.
+ */
+function validateRfc(email: string, options: ValidationOptions): EmailValidationResult {
+  if (!email || typeof email !== 'string') return reject('empty', 'Email is empty');
+  let i = 0;
+
+  // Skips nested (comments); returns an error result if one is left open
+  const skipComments = (): EmailValidationResult | null => {
+    while (email[i] === '(') {
+      const start = i;
+      let depth = 0;
+      for (; i < email.length; i++) {
+        if (email[i] === '\\') i++;
+        else if (email[i] === '(') depth++;
+        else if (email[i] === ')' && --depth === 0) break;
+      }
+      if (i >= email.length) return reject('unbalanced-comment', `Comment opened at position ${start + 1} is never closed`, [start, email.length]);
+      i++;
+    }
+    return null;
+  };
+  const unexpected = (where: 'local' | 'domain'): EmailValidationResult => {
+    const ch = email[i];
+    if (/\s/.test(ch)) return reject('whitespace', `Whitespace at position ${i + 1}`, [i, i + 1]);
+    if (ch === '@') return reject('multiple-at', `Extra @ at position ${i + 1}`, [i, i + 1]);
+    return reject(where === 'local' ? 'local-invalid-char' : 'domain-invalid-char', `Invalid character ${ch} at position ${i + 1}`, [i, i + 1]);
+  };
+
+  // Local part: dot-atom or quoted-string
+  let error = skipComments();
+  if (error) return error;
+  const localStart = i;
+  if (email[i] === '"') {
+    for (i++; i < email.length && email[i] !== '"'; i++) {
+      if (email[i] === '\\') {
+        i++; // quoted-pair: backslash followed by any printable char or space/tab
+        if (i < email.length && !QTEXT.test(email[i])) return reject('local-invalid-char', `Invalid escaped character at position ${i + 1}`, [i, i + 1]);
+      } else if (!QTEXT.test(email[i])) {
+        return reject('local-invalid-char', `Invalid character in quoted string at position ${i + 1}`, [i, i + 1]);
+      }
+    }
+    if (i >= email.length) return reject('unbalanced-quote', `Quoted string opened at position ${localStart + 1} is never closed`, [localStart, email.length]);
+    i++;
+  } else {
+    if (email[i] === '@') return reject('local-empty', 'Local part before @ is empty', [i, i]);
+    if (email[i] === '.') return reject('local-edge-dot', 'Local part starts with a dot', [i, i + 1]);
+    while (i < email.length) {
+      if (ATEXT.test(email[i])) {
+        i++;
+      } else if (email[i] === '.') {
+        if (email[i + 1] === '.') return reject('consecutive-dots', `Consecutive dots at position ${i + 1}`, [i, i + 2]);
+        if (!ATEXT.test(email[i + 1] ?? '')) return reject('local-edge-dot', 'Local part ends with a dot', [i, i + 1]);
+        i++;
+      } else {
+        break;
+      }
+    }
+    if (i === localStart) return unexpected('local');
+  }
+  const localEnd = i;
+  error = skipComments();
+  if (error) return error;
+  if (i >= email.length) return reject('missing-at', 'Missing @ separator');
+  if (email[i] !== '@') return unexpected('local');
+  i++;
+
+  // Domain: hostname or address literal
+  error = skipComments();
+  if (error) return error;
+  const domainStart = i;
+  if (i >= email.length) return reject('domain-empty', 'Domain after @ is empty', [i, i]);
+  if (email[i] === '[') {
+    const close = email.indexOf(']', i);
+    if (close === -1) return reject('invalid-address-literal', 'Address literal is missing ]', [i, email.length]);
+    const literal = email.slice(i + 1, close);
+    const general = literal.match(/^([a-zA-Z0-9-]*[a-zA-Z0-9]):([\x21-\x5a\x5e-\x7e]+)$/);
+    const ok = literal.startsWith('IPv6:')
+      ? isIPv6(literal.slice(5))
+      : isIPv4(literal) || (general !== null && general[1] !== 'IPv6');
+    if (!ok) return reject('invalid-address-literal', `Address literal [${literal}] is not a valid IP address`, [i, close + 1]);
+    i = close + 1;
+  } else {
+    if (email[i] === '.') return reject('domain-edge-dot', 'Domain starts with a dot', [i, i + 1]);
+    let labelStart = i;
+    while (i <= email.length) {
+      const ch = email[i];
+      if (ch !== undefined && (LET_DIG.test(ch) || ch === '-')) {
+        i++;
+        continue;
+      }
+      // End of a label: check its edges
+      const label = email.slice(labelStart, i);
+      if (!label) {
+        if (i === domainStart) return unexpected('domain');
+        if (ch === '.') return reject('consecutive-dots', `Consecutive dots at position ${i}`, [i - 1, i + 1]);
+        return reject('domain-edge-dot', 'Domain ends with a dot', [i - 1, i]);
+      }
+      if (label.startsWith('-') || label.endsWith('-')) {
+        const pos = label.startsWith('-') ? labelStart : i - 1;
+        return labelStart === domainStart && label.startsWith('-')
+          ? reject('domain-edge-hyphen', 'Domain starts with a hyphen', [pos, pos + 1])
+          : reject('label-edge-hyphen', `Domain label starts or ends with a hyphen at position ${pos + 1}`, [pos, pos + 1]);
+      }
+      if (ch !== '.') break;
+      i++;
+      labelStart = i;
+    }
+    const domain = email.slice(domainStart, i);
+    const labelError = checkULabels(domain, domainStart);
+    if (labelError) return labelError;
+    const tld = domain.split('.').pop() ?? '';
+    const tldError = domain.includes('.') ? checkTld(tld, i - tld.length, null) : null;
+    if (tldError) return tldError;
+  }
+  const domainEnd = i;
+  const lengthError = checkLengths(email.slice(localStart, localEnd), localStart, email.slice(domainStart, domainEnd), domainStart);
+  if (lengthError) return lengthError;
+  error = skipComments();
+  if (error) return error;
+  if (i < email.length) return unexpected('domain');
+  // Address literals have no suffix to look up
+  if (options.checkPublicSuffix && email[domainStart] !== '[') return checkPublicSuffix(email.slice(domainStart, domainEnd), domainStart);
+  return VALID_RESULT;
+}
+
+/**
+ * Validates an email address and explains the first rule it breaks.
+ * Reports which check failed and where (span offsets are 0-based, positions in reasons are 1-based).
+ */
+export function validateEmailDetailed(email: string, mode: ValidationMode = 'practical', options: ValidationOptions = {}): EmailValidationResult {
+  const at = typeof email === 'string' ? email.lastIndexOf('@') : -1;
+  if (at !== -1) email = email.slice(0, at + 1) + normalizeLabelSeparators(email.slice(at + 1));
+  return mode === 'rfc' ? validateRfc(email, options) : validatePractical(email, options);
 }
 
-// Test cases
-const TEST_CASES = [
+/**
+ * Returns the address with its domain in Unicode (U-label) and ASCII (A-label/punycode) forms.
+ * emailDomainForms('josé@münchen.de').ascii === 'josé@xn--mnchen-3ya.de'
+ */
+export function emailDomainForms(email: string): { unicode: string; ascii: string } {
+  const at = email.lastIndexOf('@');
+  if (at === -1) return { unicode: email, ascii: email };
+  const local = email.slice(0, at + 1);
+  const domain = normalizeLabelSeparators(email.slice(at + 1));
+  return { unicode: local + toUnicode(domain), ascii: local + toASCII(domain) };
+}
+
+/**
+ * Validates an email address using practical real-world rules.
+ * Accepts: letters and digits in any script, ._%+- in local part; IDN domains; long TLDs; subdomains
+ * Rejects: whitespace, consecutive dots, invalid chars, quoted strings, numeric-only TLDs
+ * Pass mode 'rfc' to accept everything RFC 5321/5322 allow instead.
+ */
+export function isValidEmail(email: string, mode: ValidationMode = 'practical', options: ValidationOptions = {}): boolean {
+  return validateEmailDetailed(email, mode, options).valid;
+}
+
+const normalizePolicyDomain = (domain: string) => toUnicode(toASCII(domain.trim().replace(/^[@.]+/, ''))).toLowerCase();
+
+/**
+ * Compiles a policy into a practical-mode validator with the policy's local charset and
+ * TLD lengths, followed by the allowlist/denylist and subdomain depth checks. Domain lists
+ * match the domain itself and its subdomains, in either Unicode or punycode form.
+ * Throws a RangeError for contradictory settings such as minTldLength > maxTldLength.
+ */
+export function compileEmailPolicy(policy: EmailPolicy, options: ValidationOptions = {}): (email: string) => EmailValidationResult {
+  const { minTldLength, maxTldLength, maxSubdomainDepth } = policy;
+  if (!Number.isInteger(minTldLength) || !Number.isInteger(maxTldLength) || minTldLength < 1 || maxTldLength > 63 || minTldLength > maxTldLength) {
+    throw new RangeError(`TLD lengths must satisfy 1 <= min <= max <= 63, got ${minTldLength}-${maxTldLength}`);
+  }
+  if (maxSubdomainDepth !== null && (!Number.isInteger(maxSubdomainDepth) || maxSubdomainDepth < 0)) {
+    throw new RangeError(`Subdomain depth must be a whole number >= 0, got ${maxSubdomainDepth}`);
+  }
+
+  const localChar = localCharClass(policy);
+  const localPart = `${localChar}+(?:\\.${localChar}+)*`;
+  const tld = tldPattern(policy);
+  const patterns: PolicyPatterns = {
+    policy,
+    email: new RegExp(`^${localPart}@${DOMAIN_LABELS}\\.${tld}$`, 'u'),
+    localPart: new RegExp(`^${localPart}$`, 'u'),
+    tld: new RegExp(`^${tld}$`),
+  };
+  const localCharRegex = new RegExp(localChar, 'u');
+  const allowed = policy.allowedDomains.filter(domain => domain.trim()).map(normalizePolicyDomain);
+  const blocked = policy.blockedDomains.filter(domain => domain.trim()).map(normalizePolicyDomain);
+  const listed = (domain: string, list: string[]) => list.find(entry => domain === entry || domain.endsWith(`.${entry}`));
+
+  return (email: string) => {
+    const at = typeof email === 'string' ? email.lastIndexOf('@') : -1;
+    if (at !== -1) email = email.slice(0, at + 1) + normalizeLabelSeparators(email.slice(at + 1));
+    const result = validatePractical(email, options, patterns);
+
+    // Name the character the policy bans instead of a generic pattern mismatch
+    if (result.code === 'pattern-mismatch' && result.span?.[0] === 0) {
+      const chars = Array.from(email.slice(0, at));
+      const badIndex = chars.findIndex(ch => ch !== '.' && !localCharRegex.test(ch));
+      if (badIndex !== -1) {
+        const pos = chars.slice(0, badIndex).join('').length;
+        return reject('local-invalid-char', `Character ${chars[badIndex]} at position ${pos + 1} is not allowed by the policy`, [pos, pos + chars[badIndex].length]);
+      }
+    }
+    if (!result.valid) return result;
+
+    const domainSpan: [number, number] = [at + 1, email.length];
+    const domain = normalizePolicyDomain(email.slice(at + 1));
+    const blockedBy = listed(domain, blocked);
+    if (blockedBy) return reject('domain-blocked', `Domain ${domain} is blocked by the policy (${blockedBy})`, domainSpan);
+    if (allowed.length > 0 && !listed(domain, allowed)) return reject('domain-not-allowed', `Domain ${domain} is not on the policy allowlist`, domainSpan);
+    if (maxSubdomainDepth !== null) {
+      const { registrable } = matchPublicSuffix(domain);
+      const depth = registrable ? domain.split('.').length - registrable.split('.').length : 0;
+      if (depth > maxSubdomainDepth) {
+        return reject('subdomain-too-deep', `Domain has ${depth} subdomain level${depth === 1 ? '' : 's'}; the policy allows ${maxSubdomainDepth}`, domainSpan);
+      }
+    }
+    return result;
+  };
+}
+
+// Free text holds domains in Unicode form, so labels use the U-label characters checkULabels allows;
+// numeric or too-short TLDs are left to the isValidEmail filter in findEmails
+const TEXT_LABEL = '[\\p{L}\\p{M}\\p{N}](?:[\\p{L}\\p{M}\\p{N}\\-]*[\\p{L}\\p{M}\\p{N}])?';
+
+// Unanchored variant for scanning free text: must not start or end inside a longer token or another address
+const EMAIL_IN_TEXT_REGEX = new RegExp(
+  `(?<![\\p{L}\\p{M}\\p{N}._%+\\-@])${LOCAL_PART}@${TEXT_LABEL}(?:\\.${TEXT_LABEL})+(?![\\p{L}\\p{M}\\p{N}\\-]|@)`,
+  'gu'
+);
+
+// Free-text inputs and the addresses findEmails must return, checked in the extraction panel
+const EXTRACTION_CASES: Array<{ text: string; expected: string[]; description: string }> = [
+  { text: 'Contact: <a@b.com>, c@d.org.', expected: ['a@b.com', 'c@d.org'], description: 'Brackets and trailing punctuation' },
+  { text: 'Schreib an josé@münchen.de!', expected: ['josé@münchen.de'], description: 'IDN domain' },
+  { text: '用户@例子.广告 (cn)', expected: ['用户@例子.广告'], description: 'CJK address' },
+  { text: 'a@b.com@c.com', expected: [], description: 'Chained @ is not an address' },
+  { text: 'x@y.123 and me@host', expected: [], description: 'Numeric TLD and missing TLD' },
+];
+
+// Addresses and the "did you mean" suggestEmail must give (null: none), checked under the custom results
+const SUGGESTION_CASES: Array<{ email: string; expected: string | null; description: string }> = [
+  { email: 'user@gmial.com', expected: 'user@gmail.com', description: 'Transposed letters in a popular domain' },
+  { email: 'user@yaho.co', expected: 'user@yahoo.com', description: 'Label typo and truncated TLD' },
+  { email: 'user@gmx.net', expected: null, description: 'Real domain next to gmx.com and gmx.de' },
+];
+
+export interface EmailMatch {
+  email: string;
+  start: number; // offset of the first character in the scanned text
+  end: number; // offset just past the last character
+}
+
+/**
+ * Finds addresses embedded in free text such as CSV cells, signatures and log lines.
+ * Surrounding punctuation like <a@b.com>, (a@b.com). or a trailing comma is left out,
+ * and every candidate must also pass isValidEmail.
+ * findEmails('Contact: <a@b.com>, c@d.org.') => [{ email: 'a@b.com', start: 10, end: 17 }, ...]
+ */
+export function findEmails(text: string): EmailMatch[] {
+  return Array.from(text.matchAll(EMAIL_IN_TEXT_REGEX))
+    .map(match => ({ email: match[0], start: match.index ?? 0, end: (match.index ?? 0) + match[0].length }))
+    .filter(match => isValidEmail(match.email));
+}
+
+export interface PatternTraceStep {
+  subpattern: 'LOCAL_PART' | '@' | 'DOMAIN_LABELS' | '.' | 'TLD' | 'end';
+  start: number; // span of the consumed characters in PatternTrace.text
+  end: number;
+  matched: boolean;
+  note: string;
+}
+
+export interface PatternTrace {
+  text: string; // what EMAIL_REGEX actually sees: the address with its domain in punycode
+  steps: PatternTraceStep[]; // in matching order; only the last step can be unmatched
+  matched: boolean;
+}
+
+// Sticky copies of the subpatterns, run one after another from the current position
+const LOCAL_PART_STICKY = new RegExp(LOCAL_PART, 'uy');
+const LABEL_STICKY = new RegExp(LABEL_CHAR, 'uy');
+const TLD_STICKY = new RegExp(`${TLD}(?![a-zA-Z0-9\\-])`, 'uy'); // whole label, so xn--p1ai is not cut at 'xn'
+
+/**
+ * Replays EMAIL_REGEX one subpattern at a time and records which characters each one
+ * consumed, stopping at the first step that fails. The domain is matched label by label;
+ * as in the regex, the last label is the TLD. Agrees with EMAIL_REGEX on every input.
+ */
+export function traceEmailPattern(email: string): PatternTrace {
+  const at = email.indexOf('@');
+  const text = at === -1 ? email : `${email.slice(0, at + 1)}${toASCII(email.slice(at + 1))}`;
+  const steps: PatternTraceStep[] = [];
+  const found = (pos: number) => (pos < text.length ? `found "${Array.from(text.slice(pos))[0]}"` : 'found end of input');
+  const done = (step: PatternTraceStep): PatternTrace => {
+    steps.push(step);
+    return { text, steps, matched: step.matched };
+  };
+  const sticky = (regex: RegExp, pos: number) => {
+    regex.lastIndex = pos;
+    return regex.exec(text)?.[0].length ?? 0;
+  };
+
+  const localLength = sticky(LOCAL_PART_STICKY, 0);
+  if (!localLength) return done({ subpattern: 'LOCAL_PART', start: 0, end: 0, matched: false, note: `expected a letter, digit or _%+-, ${found(0)}` });
+  steps.push({ subpattern: 'LOCAL_PART', start: 0, end: localLength, matched: true, note: 'dot-separated runs of LOCAL_CHAR' });
+  if (text[localLength] !== '@') return done({ subpattern: '@', start: localLength, end: localLength, matched: false, note: `expected "@", ${found(localLength)}` });
+  steps.push({ subpattern: '@', start: localLength, end: localLength + 1, matched: true, note: 'separator' });
+
+  // Labels greedily, like DOMAIN_LABELS before it backtracks to leave the last one for the TLD
+  const labels: Array<[number, number]> = [];
+  let pos = localLength + 1;
+  for (;;) {
+    const labelLength = sticky(LABEL_STICKY, pos);
+    if (!labelLength) {
+      // Every label consumed so far was followed by a dot
+      labels.forEach(([start, end], idx) => {
+        steps.push({ subpattern: 'DOMAIN_LABELS', start, end, matched: true, note: `label ${idx + 1}` });
+        steps.push({ subpattern: '.', start: end, end: end + 1, matched: true, note: 'between labels' });
+      });
+      return done({ subpattern: 'DOMAIN_LABELS', start: pos, end: pos, matched: false, note: `expected a label starting with a letter or digit, ${found(pos)}` });
+    }
+    labels.push([pos, pos + labelLength]);
+    pos += labelLength;
+    if (text[pos] !== '.') break;
+    pos++;
+  }
+  if (labels.length === 1) {
+    steps.push({ subpattern: 'DOMAIN_LABELS', start: labels[0][0], end: pos, matched: true, note: 'label 1' });
+    return done({ subpattern: '.', start: pos, end: pos, matched: false, note: `expected "." before the TLD, ${found(pos)}` });
+  }
+  labels.slice(0, -1).forEach(([start, end], idx) => {
+    steps.push({ subpattern: 'DOMAIN_LABELS', start, end, matched: true, note: `label ${idx + 1}` });
+    steps.push({ subpattern: '.', start: end, end: end + 1, matched: true, note: idx === labels.length - 2 ? 'before the TLD' : 'between labels' });
+  });
+
+  const tldStart = labels[labels.length - 1][0];
+  const tldLength = sticky(TLD_STICKY, tldStart);
+  if (!tldLength) {
+    return done({ subpattern: 'TLD', start: tldStart, end: tldStart, matched: false, note: `expected 2-63 letters or an xn-- label, found "${text.slice(tldStart, pos)}"` });
+  }
+  steps.push({ subpattern: 'TLD', start: tldStart, end: tldStart + tldLength, matched: true, note: /^xn--/i.test(text.slice(tldStart)) ? 'punycoded TLD' : 'letters only' });
+  const tldEnd = tldStart + tldLength;
+  if (tldEnd < text.length) return done({ subpattern: 'end', start: tldEnd, end: tldEnd, matched: false, note: `expected end of address, ${found(tldEnd)}` });
+  return done({ subpattern: 'end', start: tldEnd, end: tldEnd, matched: true, note: 'whole address consumed' });
+}
+
+export interface ParsedTestCase {
+  line: number; // 1-based line in the input
+  note: string;
+  expected: boolean;
+  email: string;
+  code: EmailRejectionCode | null; // optional expected rejection code
+}
+
+export interface TestCaseParseError {
+  line: number;
+  message: string;
+}
+
+/**
+ * Parses custom test cases, one per line:
+ *
+ *   line     := blank | '#' comment | [ '(' note ')' ] expected email [ code ] [ '#' comment ]
+ *   expected := 'true' | 'false'
+ *   email    := token | '"' quoted '"'
+ *   code     := one of EMAIL_REJECTION_CODES, only after 'false'
+ *
+ * A token runs to the next whitespace, so user#name@x.com stays intact; a trailing comment
+ * needs whitespace before its '#'. A quoted email may hold spaces and \" or \\ escapes.
+ * When the closing quote is followed by more characters ("a b"@example.com) the quotes
+ * belong to the address itself, as in an RFC quoted local part.
+ * Malformed lines produce errors instead of guessed test cases.
+ */
+export function parseTestCaseLines(text: string): { cases: ParsedTestCase[]; errors: TestCaseParseError[] } {
+  const cases: ParsedTestCase[] = [];
+  const errors: TestCaseParseError[] = [];
+
+  text.split(/\r?\n/).forEach((rawLine, idx) => {
+    const line = idx + 1;
+    const fail = (message: string) => errors.push({ line, message });
+    let rest = rawLine.trim();
+    if (!rest || rest.startsWith('#')) return;
+
+    // (note)
+    let note = '';
+    if (rest.startsWith('(')) {
+      const close = rest.indexOf(')');
+      if (close === -1) return fail('unclosed note, missing ")"');
+      note = rest.slice(1, close).trim();
+      rest = rest.slice(close + 1).trimStart();
+    }
+
+    // true/false
+    const expectedToken = rest.match(/^\S*/)?.[0] ?? '';
+    if (expectedToken !== 'true' && expectedToken !== 'false') {
+      return fail(expectedToken ? `expected "true" or "false", found "${expectedToken}"` : 'missing "true"/"false" and email');
+    }
+    const expected = expectedToken === 'true';
+    rest = rest.slice(expectedToken.length).trimStart();
+    if (!rest || rest.startsWith('#')) return fail(`missing email after "${expectedToken}"`);
+
+    // email: bare token or quoted string
+    let email: string;
+    let consumed: number;
+    if (rest.startsWith('"')) {
+      let i = 1;
+      let unquoted = '';
+      for (; i < rest.length && rest[i] !== '"'; i++) {
+        if (rest[i] === '\\' && i + 1 < rest.length) i++;
+        unquoted += rest[i];
+      }
+      if (i >= rest.length) return fail('unclosed quoted email, missing closing "');
+      const tail = rest.slice(i + 1).match(/^\S*/)?.[0] ?? '';
+      email = tail ? rest.slice(0, i + 1) + tail : unquoted; // with a tail the quotes are part of the address
+      consumed = i + 1 + tail.length;
+    } else {
+      email = rest.match(/^\S*/)?.[0] ?? '';
+      consumed = email.length;
+    }
+    rest = rest.slice(consumed).trimStart();
+
+    // [code] [# comment]
+    let code: EmailRejectionCode | null = null;
+    const codeToken = rest.match(/^[^\s#]\S*/)?.[0];
+    if (codeToken) {
+      if (codeToken.includes('@')) return fail(`unexpected text "${rest}" after the email; quote emails that contain spaces`);
+      if (!(EMAIL_REJECTION_CODES as readonly string[]).includes(codeToken)) return fail(`unknown reason code "${codeToken}"`);
+      if (expected) return fail(`reason code "${codeToken}" given for an expected-valid email`);
+      code = codeToken as EmailRejectionCode;
+      rest = rest.slice(codeToken.length).trimStart();
+    }
+    if (rest && !rest.startsWith('#')) return fail(`unexpected text "${rest}" after the email`);
+
+    cases.push({ line, note, expected, email, code });
+  });
+  return { cases, errors };
+}
+
+// Provider-specific mailbox rules used by canonicalizeEmail; pass your own table to override
+export interface CanonicalizationRule {
+  domains: string[]; // lowercase provider domains the rule applies to
+  canonicalDomain?: string; // alias domains collapse to this one (googlemail.com -> gmail.com)
+  lowercaseLocal?: boolean; // provider treats the local part case-insensitively
+  ignoreDots?: boolean; // provider ignores dots in the local part (Gmail)
+  subaddressSeparator?: string; // sub-address delimiter, '+' unless the provider uses another
+}
+
+export const DEFAULT_CANONICALIZATION_RULES: CanonicalizationRule[] = [
+  { domains: ['gmail.com', 'googlemail.com'], canonicalDomain: 'gmail.com', lowercaseLocal: true, ignoreDots: true },
+  { domains: ['outlook.com', 'hotmail.com', 'live.com', 'msn.com'], lowercaseLocal: true },
+  { domains: ['yahoo.com', 'ymail.com'], lowercaseLocal: true, subaddressSeparator: '-' },
+  { domains: ['icloud.com', 'me.com', 'mac.com'], canonicalDomain: 'icloud.com', lowercaseLocal: true },
+  { domains: ['proton.me', 'protonmail.com', 'pm.me'], canonicalDomain: 'proton.me', lowercaseLocal: true },
+  { domains: ['fastmail.com'], lowercaseLocal: true },
+];
+
+export interface CanonicalizeOptions {
+  stripSubaddress?: boolean; // drop +tag sub-addressing (default true)
+  rules?: CanonicalizationRule[];
+}
+
+/**
+ * Reduces an address to a canonical form for deduplication: the domain is lowercased,
+ * +tags are stripped (unless disabled) and the matching provider rule is applied.
+ * Local parts keep their case unless a provider rule says otherwise.
+ * canonicalizeEmail('First.Last+promo@GMail.com') === 'firstlast@gmail.com'
+ */
+export function canonicalizeEmail(email: string, options: CanonicalizeOptions = {}): string {
+  const { stripSubaddress = true, rules = DEFAULT_CANONICALIZATION_RULES } = options;
+  const at = email.lastIndexOf('@');
+  if (at === -1) return email;
+  let local = email.slice(0, at);
+  let domain = normalizeLabelSeparators(email.slice(at + 1)).normalize('NFC').toLowerCase();
+  const rule = rules.find(candidate => candidate.domains.includes(domain));
+
+  if (stripSubaddress) {
+    const separator = rule?.subaddressSeparator ?? '+';
+    const tagStart = local.indexOf(separator);
+    if (tagStart > 0) local = local.slice(0, tagStart);
+  }
+  if (rule?.ignoreDots) local = local.replace(/\./g, '');
+  if (rule?.lowercaseLocal) local = local.toLowerCase();
+  if (rule?.canonicalDomain) domain = rule.canonicalDomain;
+  return `${local}@${domain}`;
+}
+
+/**
+ * Validates an address and, when it is valid, tags it (disposable, role, plus-tagged, free-provider)
+ * so callers can flag it without rejecting it. Invalid addresses get no tags.
+ */
+export function classifyEmail(
+  email: string,
+  mode: ValidationMode = 'practical',
+  options: ValidationOptions = {}
+): EmailValidationResult & { tags: EmailTag[] } {
+  const result = validateEmailDetailed(email, mode, options);
+  return { ...result, tags: result.valid ? tagEmail(email) : [] };
+}
+
+// Builds a dotted domain of exactly `length` characters out of 63-char labels ending in .com
+function domainOfLength(length: number): string {
+  const labels: string[] = [];
+  let remaining = length - '.com'.length;
+  while (remaining > 0) {
+    if (labels.length > 0) remaining--; // dot separator
+    let size = Math.min(MAX_LABEL_LENGTH, remaining);
+    if (remaining - size === 1) size--; // never leave room for just a dot
+    labels.push('a'.repeat(size));
+    remaining -= size;
+  }
+  return `${labels.join('.')}.com`;
+}
+
+// Length-limit boundaries, generated at exactly N and N+1 characters. Even a 1-char local
+// part leaves room for only MAX_ADDRESS_LENGTH - 2 domain characters, so no address can
+// reach MAX_DOMAIN_LENGTH; the domain cases show that ceiling and each limit's own code.
+const LENGTH_CASES = ([
+  { email: `${'a'.repeat(MAX_LOCAL_LENGTH)}@example.com`, valid: true, description: `Local part at ${MAX_LOCAL_LENGTH} chars` },
+  { email: `${'a'.repeat(MAX_LOCAL_LENGTH + 1)}@example.com`, valid: false, code: 'local-too-long', description: `Local part at ${MAX_LOCAL_LENGTH + 1} chars` },
+  { email: `user@${'a'.repeat(MAX_LABEL_LENGTH)}.com`, valid: true, description: `Domain label at ${MAX_LABEL_LENGTH} chars` },
+  { email: `user@${'a'.repeat(MAX_LABEL_LENGTH + 1)}.com`, valid: false, code: 'label-too-long', description: `Domain label at ${MAX_LABEL_LENGTH + 1} chars` },
+  { email: `a@${domainOfLength(MAX_ADDRESS_LENGTH - 2)}`, valid: true, description: `Domain at ${MAX_ADDRESS_LENGTH - 2} chars (longest that fits a ${MAX_ADDRESS_LENGTH}-char address)` },
+  { email: `a@${domainOfLength(MAX_DOMAIN_LENGTH)}`, valid: false, code: 'address-too-long', description: `Domain at ${MAX_DOMAIN_LENGTH} chars (within domain limit, address over ${MAX_ADDRESS_LENGTH})` },
+  { email: `a@${domainOfLength(MAX_DOMAIN_LENGTH + 1)}`, valid: false, code: 'domain-too-long', description: `Domain at ${MAX_DOMAIN_LENGTH + 1} chars` },
+  { email: `${'a'.repeat(MAX_LOCAL_LENGTH)}@${domainOfLength(MAX_ADDRESS_LENGTH - MAX_LOCAL_LENGTH - 1)}`, valid: true, description: `Address at ${MAX_ADDRESS_LENGTH} chars` },
+  { email: `${'a'.repeat(MAX_LOCAL_LENGTH)}@${domainOfLength(MAX_ADDRESS_LENGTH - MAX_LOCAL_LENGTH)}`, valid: false, code: 'address-too-long', description: `Address at ${MAX_ADDRESS_LENGTH + 1} chars` },
+] satisfies Array<{ email: string; valid: boolean; code?: EmailRejectionCode; description: string }>)
+  .map(({ email, valid, code, description }) => ({ email, expected: { practical: valid, rfc: valid }, code, description }));
+
+// Test cases: expected result per validation mode
+// (expectedWithSuffixCheck overrides both modes when the public suffix check is on;
+// code, when set, is the rejection code an invalid case must report)
+const TEST_CASES: Array<{ email: string; expected: Record<ValidationMode, boolean>; expectedWithSuffixCheck?: boolean; code?: EmailRejectionCode; description: string }> = [
   // Original 12 valid cases
-  { email: 'simple@example.com', expected: true, description: 'Basic valid email' },
-  { email: 'user.name@example.com', expected: true, description: 'Dot in local part' },
-  { email: 'user+tag@example.co.uk', expected: true, description: 'Plus sign and ccTLD' },
-  { email: 'first.last@sub.domain.com', expected: true, description: 'Subdomain' },
-  { email: 'user%test@example.com', expected: true, description: 'Percent in local part' },
-  { email: 'a@b.co', expected: true, description: 'Minimal valid email' },
-  { email: 'test@example.museum', expected: true, description: 'Long TLD' },
-  { email: 'user-name@example.com', expected: true, description: 'Hyphen in local part' },
-  { email: 'first_last@example.com', expected: true, description: 'Underscore in local part' },
-  { email: 'TEST@EXAMPLE.COM', expected: true, description: 'Uppercase letters' },
-  { email: 'user@mail.example.com', expected: true, description: 'Multiple subdomains' },
-  { email: '123@example.com', expected: true, description: 'Numeric local part' },
+  { email: 'simple@example.com', expected: { practical: true, rfc: true }, description: 'Basic valid email' },
+  { email: 'user.name@example.com', expected: { practical: true, rfc: true }, description: 'Dot in local part' },
+  { email: 'user+tag@example.co.uk', expected: { practical: true, rfc: true }, description: 'Plus sign and ccTLD' },
+  { email: 'first.last@sub.domain.com', expected: { practical: true, rfc: true }, description: 'Subdomain' },
+  { email: 'user%test@example.com', expected: { practical: true, rfc: true }, description: 'Percent in local part' },
+  { email: 'a@b.co', expected: { practical: true, rfc: true }, description: 'Minimal valid email' },
+  { email: 'test@example.museum', expected: { practical: true, rfc: true }, description: 'Long TLD' },
+  { email: 'user-name@example.com', expected: { practical: true, rfc: true }, description: 'Hyphen in local part' },
+  { email: 'first_last@example.com', expected: { practical: true, rfc: true }, description: 'Underscore in local part' },
+  { email: 'TEST@EXAMPLE.COM', expected: { practical: true, rfc: true }, description: 'Uppercase letters' },
+  { email: 'user@mail.example.com', expected: { practical: true, rfc: true }, description: 'Multiple subdomains' },
+  { email: '123@example.com', expected: { practical: true, rfc: true }, description: 'Numeric local part' },
   
   // Original 12 invalid cases
-  { email: 'plainaddress', expected: false, description: 'Missing @' },
-  { email: '@example.com', expected: false, description: 'Missing local part' },
-  { email: 'user@', expected: false, description: 'Missing domain' },
-  { email: 'user @example.com', expected: false, description: 'Space in email' },
-  { email: 'user@example .com', expected: false, description: 'Space in domain' },
-  { email: 'user..name@example.com', expected: false, description: 'Consecutive dots in local' },
-  { email: '.user@example.com', expected: false, description: 'Leading dot in local' },
-  { email: 'user.@example.com', expected: false, description: 'Trailing dot in local' },
-  { email: 'user@.example.com', expected: false, description: 'Leading dot in domain' },
-  { email: 'user@example..com', expected: false, description: 'Consecutive dots in domain' },
-  { email: 'user@-example.com', expected: false, description: 'Leading hyphen in domain' },
-  { email: 'user@example.c', expected: false, description: 'TLD too short' },
+  { email: 'plainaddress', expected: { practical: false, rfc: false }, description: 'Missing @' },
+  { email: '@example.com', expected: { practical: false, rfc: false }, description: 'Missing local part' },
+  { email: 'user@', expected: { practical: false, rfc: false }, description: 'Missing domain' },
+  { email: 'user @example.com', expected: { practical: false, rfc: false }, description: 'Space in email' },
+  { email: 'user@example .com', expected: { practical: false, rfc: false }, description: 'Space in domain' },
+  { email: 'user..name@example.com', expected: { practical: false, rfc: false }, description: 'Consecutive dots in local' },
+  { email: '.user@example.com', expected: { practical: false, rfc: false }, description: 'Leading dot in local' },
+  { email: 'user.@example.com', expected: { practical: false, rfc: false }, description: 'Trailing dot in local' },
+  { email: 'user@.example.com', expected: { practical: false, rfc: false }, description: 'Leading dot in domain' },
+  { email: 'user@example..com', expected: { practical: false, rfc: false }, description: 'Consecutive dots in domain' },
+  { email: 'user@-example.com', expected: { practical: false, rfc: false }, description: 'Leading hyphen in domain' },
+  { email: 'user@example.c', expected: { practical: false, rfc: true }, expectedWithSuffixCheck: false, description: 'TLD too short (RFC allows 1-char labels)' },
   
   // New 6 edge cases
-  { email: 'customer-service@store.online', expected: true, description: 'Hyphen and long TLD' },
-  { email: 'FIRST_LAST@Example.COM', expected: true, description: 'Mixed case with underscore' },
-  { email: 'a@b.c.d.e.f.g.example.com', expected: true, description: 'Deep subdomain chain' },
-  { email: '"a b"@example.com', expected: false, description: 'Quoted string (unsupported)' },
-  { email: 'user[123]@example.com', expected: false, description: 'Brackets in local part' },
-  { email: 'user@domain.technology', expected: true, description: 'Very long TLD' },
+  { email: 'customer-service@store.online', expected: { practical: true, rfc: true }, description: 'Hyphen and long TLD' },
+  { email: 'FIRST_LAST@Example.COM', expected: { practical: true, rfc: true }, description: 'Mixed case with underscore' },
+  { email: 'a@b.c.d.e.f.g.example.com', expected: { practical: true, rfc: true }, description: 'Deep subdomain chain' },
+  { email: '"a b"@example.com', expected: { practical: false, rfc: true }, description: 'Quoted string (RFC only)' },
+  { email: 'user[123]@example.com', expected: { practical: false, rfc: false }, description: 'Brackets in local part' },
+  { email: 'user@domain.technology', expected: { practical: true, rfc: true }, description: 'Very long TLD' },
+
+  // RFC 5321/5322 cases where the modes disagree
+  { email: '"john..doe"@example.com', expected: { practical: false, rfc: true }, description: 'Quoted dots (RFC only)' },
+  { email: '(comment)user@example.com', expected: { practical: false, rfc: true }, description: 'Leading comment (RFC only)' },
+  { email: 'user@(comment)example.com', expected: { practical: false, rfc: true }, description: 'Domain comment (RFC only)' },
+  { email: 'user@[192.168.0.1]', expected: { practical: false, rfc: true }, description: 'IPv4 literal (RFC only)' },
+  { email: 'user@[IPv6:2001:db8::1]', expected: { practical: false, rfc: true }, description: 'IPv6 literal (RFC only)' },
+  { email: 'user@localhost', expected: { practical: false, rfc: true }, expectedWithSuffixCheck: false, description: 'Single-label domain (RFC only)' },
+  { email: "!#$%&'*+-/=?^_`{|}~@example.org", expected: { practical: false, rfc: true }, description: 'All atext symbols (RFC only)' },
+  { email: 'user@[300.1.1.1]', expected: { practical: false, rfc: false }, description: 'Out-of-range IPv4 literal' },
+  { email: '"unterminated@example.com', expected: { practical: false, rfc: false }, description: 'Unclosed quoted string' },
+  { email: '(open user@example.com', expected: { practical: false, rfc: false }, description: 'Unclosed comment' },
+
+  // Internationalized addresses (RFC 6531 local parts, IDN domains)
+  { email: 'josé@münchen.de', expected: { practical: true, rfc: true }, description: 'Accented local part and IDN domain' },
+  { email: '用户@例子.广告', expected: { practical: true, rfc: true }, expectedWithSuffixCheck: false, description: 'CJK local part, domain and TLD' },
+  { email: 'user@xn--mnchen-3ya.de', expected: { practical: true, rfc: true }, description: 'Punycoded domain' },
+  { email: 'user@例子。广告', expected: { practical: true, rfc: true }, expectedWithSuffixCheck: false, description: 'Ideographic full stop separator' },
+  { email: 'user@münchen☃.de', expected: { practical: false, rfc: false }, description: 'Symbol in IDN label' },
+  { email: 'a@b.é', expected: { practical: false, rfc: true }, expectedWithSuffixCheck: false, description: 'One-letter IDN TLD (RFC allows 1-char labels)' },
+  { email: 'a@x.٣٣', expected: { practical: false, rfc: false }, description: 'Numeric TLD in Arabic-Indic digits' },
+  { email: 'a@b.XN--P1AI', expected: { practical: true, rfc: true }, description: 'Uppercase ACE prefix in TLD' },
+
+  // Public suffix list cases (only differ when the suffix check is on)
+  { email: 'user@example.notarealtld', expected: { practical: true, rfc: true }, expectedWithSuffixCheck: false, description: 'Unknown TLD' },
+  { email: 'user@co.uk', expected: { practical: true, rfc: true }, expectedWithSuffixCheck: false, description: 'Bare public suffix' },
+  { email: 'user@foo.ck', expected: { practical: true, rfc: true }, expectedWithSuffixCheck: false, description: 'Wildcard suffix (*.ck)' },
+  { email: 'user@www.ck', expected: { practical: true, rfc: true }, expectedWithSuffixCheck: true, description: 'Exception rule (!www.ck)' },
+  { email: 'user@mail.example.co.uk', expected: { practical: true, rfc: true }, expectedWithSuffixCheck: true, description: 'Registrable under co.uk' },
+
+  ...LENGTH_CASES,
+];
+
+// Shows the Unicode and ASCII forms of an address when they differ
+function IdnForms({ email }: { email: string }) {
+  const { unicode, ascii } = emailDomainForms(email);
+  if (unicode === ascii) return null;
+  return (
+    <div className="text-xs text-slate-500 font-mono break-all mb-1">
+      {unicode} ⇄ {ascii}
+    </div>
+  );
+}
+
+// Shows which public suffix rule matched the domain
+function SuffixInfo({ suffix }: { suffix: SuffixMatch }) {
+  return (
+    <div className="text-xs text-slate-500 mb-1">
+      Suffix: <span className="font-mono">{suffix.suffix}</span> (rule <span className="font-mono">{suffix.rule}</span>)
+      {suffix.registrable && <> · registrable <span className="font-mono">{suffix.registrable}</span></>}
+    </div>
+  );
+}
+
+// Every generation of the validator, for side-by-side comparison
+export const VALIDATOR_VERSIONS: ValidatorImplementation[] = [
+  { id: 'v1', label: 'v1', validate: validateEmailV1 },
+  { id: 'v2', label: 'v2', validate: isValidEmailV2 },
+  { id: 'v3', label: 'v3 practical', validate: email => isValidEmail(email) },
+  { id: 'v3-rfc', label: 'v3 RFC', validate: email => isValidEmail(email, 'rfc') },
+];
+
+// A named set of test cases loaded from a file in the custom test-case format
+interface TestSuite {
+  name: string;
+  cases: ParsedTestCase[];
+  errors: TestCaseParseError[];
+}
+
+interface SuiteRun {
+  name: string;
+  passed: number;
+  total: number;
+  parseErrors: number;
+  failures: Array<{ line: number; email: string; expected: boolean; actual: boolean; reason: string | null }>;
+}
+
+const BUILT_IN_SUITE = 'TEST_CASES';
+
+function runSuite(suite: TestSuite, mode: ValidationMode, options: ValidationOptions): SuiteRun {
+  const failures: SuiteRun['failures'] = [];
+  for (const { line, email, expected, code: expectedCode } of suite.cases) {
+    const { valid: actual, reason, code } = validateEmailDetailed(email, mode, options);
+    if (actual !== expected || (expectedCode !== null && code !== expectedCode)) {
+      failures.push({ line, email, expected, actual, reason });
+    }
+  }
+  return {
+    name: suite.name,
+    passed: suite.cases.length - failures.length,
+    total: suite.cases.length,
+    parseErrors: suite.errors.length,
+    failures,
+  };
+}
+
+// Saves text content as a file through a temporary object URL
+function downloadText(fileName: string, content: string, type = 'text/plain') {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+const TAG_STYLES: Record<EmailTag, string> = {
+  disposable: 'bg-red-100 text-red-800',
+  role: 'bg-purple-100 text-purple-800',
+  'plus-tagged': 'bg-blue-100 text-blue-800',
+  'free-provider': 'bg-slate-200 text-slate-700',
+};
+
+// The page has no DNS access, so domain verification runs against the demo zones
+const DEMO_RESOLVER = createFakeResolver(DEMO_DNS_ZONES, { latencyMs: 150 });
+
+const dnsDomain = lookupDomain;
+
+// A resolver that never answers, for the timeout case
+const SILENT_RESOLVER: DnsResolver = { resolveMx: () => new Promise(() => {}), resolveA: () => new Promise(() => {}) };
+
+// verifyEmailDomain against the demo zones: the domain it must look up and the outcome
+const DNS_CASES: Array<{ email: string; domain: string; status: DomainVerificationStatus; resolver?: DnsResolver; description: string }> = [
+  { email: 'user@gmail.com', domain: 'gmail.com', status: 'mx', description: 'MX records' },
+  { email: 'user@example.com', domain: 'example.com', status: 'null-mx', description: 'Null MX' },
+  { email: 'user@mail.example.com', domain: 'mail.example.com', status: 'no-mx', description: 'A record fallback' },
+  { email: 'user@nowhere.example.org', domain: 'nowhere.example.org', status: 'nxdomain', description: 'Unknown domain' },
+  { email: 'user@(c)Example.co.uk(a@b)', domain: 'example.co.uk', status: 'mx', description: 'Comments around an RFC domain' },
+  { email: 'josé@münchen.de', domain: 'xn--mnchen-3ya.de', status: 'mx', description: 'IDN looked up in punycode' },
+  { email: 'user@gmail.com', domain: 'gmail.com', status: 'error', resolver: SILENT_RESOLVER, description: 'Resolver timeout' },
+];
+
+async function checkDnsCases() {
+  const resolver = createFakeResolver(DEMO_DNS_ZONES);
+  return Promise.all(DNS_CASES.map(async test => {
+    const result = await verifyEmailDomain(test.email, test.resolver ?? resolver, { timeoutMs: 50 });
+    return { ...test, actual: `${result.domain} ${result.status}`, passed: result.domain === test.domain && result.status === test.status };
+  }));
+}
+
+// RFC mode accepts [1.2.3.4] and [IPv6:...] domains; they are addresses, so there is nothing to resolve
+const isAddressLiteral = (domain: string) => domain.startsWith('[');
+
+const DNS_STYLES: Record<DomainVerificationResult['status'], string> = {
+  mx: 'bg-green-100 text-green-800',
+  'no-mx': 'bg-amber-100 text-amber-800',
+  'null-mx': 'bg-red-100 text-red-800',
+  nxdomain: 'bg-red-100 text-red-800',
+  error: 'bg-slate-200 text-slate-700',
+};
+
+// DNS column of a result card; undefined result means the lookup is still running
+function DnsBadge({ domain, result }: { domain: string; result: DomainVerificationResult | undefined }) {
+  if (isAddressLiteral(domain)) {
+    return (
+      <span title="Address literals name a host directly and are not looked up" className={`px-2 py-0.5 rounded-full text-xs font-semibold flex-shrink-0 ${DNS_STYLES.error}`}>
+        literal, not checked
+      </span>
+    );
+  }
+  if (!result) return <span className="text-xs text-slate-400 flex-shrink-0">DNS…</span>;
+  return (
+    <span title={result.message} className={`px-2 py-0.5 rounded-full text-xs font-semibold flex-shrink-0 ${DNS_STYLES[result.status]}`}>
+      {result.status}
+    </span>
+  );
+}
+
+// Highlight per subpattern in the match trace
+const TRACE_STYLES: Record<PatternTraceStep['subpattern'], string> = {
+  LOCAL_PART: 'bg-blue-100 text-blue-800',
+  '@': 'text-slate-500',
+  DOMAIN_LABELS: 'bg-green-100 text-green-800',
+  '.': 'text-slate-500',
+  TLD: 'bg-purple-100 text-purple-800',
+  end: '',
+};
+
+// Renders classification tags as small badges
+function TagBadges({ tags }: { tags: EmailTag[] }) {
+  if (tags.length === 0) return null;
+  return (
+    <div className="flex flex-wrap gap-1 mb-1">
+      {tags.map(tag => (
+        <span key={tag} className={`px-2 py-0.5 rounded-full text-xs font-semibold ${TAG_STYLES[tag]}`}>
+          {tag}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+// Failures that typing more of the domain can still fix, e.g. 'ann@exam' or 'ann@example.'
+const INCOMPLETE_DOMAIN_CODES: EmailRejectionCode[] = [
+  'domain-empty', 'domain-edge-dot', 'domain-edge-hyphen', 'missing-tld', 'invalid-tld', 'unknown-tld', 'bare-suffix',
 ];
 
+function isTypingDomain(email: string, result: EmailValidationResult): boolean {
+  return (
+    email.includes('@') &&
+    result.code !== null &&
+    INCOMPLETE_DOMAIN_CODES.includes(result.code) &&
+    (result.span === null || result.span[1] === email.length)
+  );
+}
+
+export interface EmailInputProps extends Omit<React.InputHTMLAttributes<HTMLInputElement>, 'value' | 'onChange' | 'type'> {
+  value: string;
+  onChange: (value: string) => void;
+  onValidityChange?: (valid: boolean, result: EmailValidationResult | null) => void; // result is null while empty
+  mode?: ValidationMode;
+  options?: ValidationOptions;
+  debounceMs?: number; // quiet time before feedback is shown
+  label?: string;
+}
+
+/**
+ * Email field with live validation for forms. Validity is computed on every change and
+ * reported through onValidityChange as soon as it flips; only the visible feedback waits
+ * for a pause in typing (or blur). While the field is focused, an address whose only
+ * problem is an unfinished domain is not flagged. The reason is linked via aria-describedby.
+ */
+export function EmailInput({
+  value,
+  onChange,
+  onValidityChange,
+  mode = 'practical',
+  options = {},
+  debounceMs = 400,
+  label,
+  id,
+  className,
+  onFocus,
+  onBlur,
+  ...inputProps
+}: EmailInputProps) {
+  const generatedId = useId();
+  const inputId = id ?? generatedId;
+  const messageId = `${inputId}-message`;
+  const [settledValue, setSettledValue] = useState(value);
+  const [focused, setFocused] = useState(false);
+  const reportedValidity = useRef<boolean | null>(null);
+
+  const { checkPublicSuffix } = options;
+  const result = useMemo(
+    () => (value ? validateEmailDetailed(value, mode, { checkPublicSuffix }) : null),
+    [value, mode, checkPublicSuffix]
+  );
+
+  useEffect(() => {
+    const timer = setTimeout(() => setSettledValue(value), debounceMs);
+    return () => clearTimeout(timer);
+  }, [value, debounceMs]);
+
+  useEffect(() => {
+    const valid = result?.valid ?? false;
+    if (valid === reportedValidity.current) return;
+    reportedValidity.current = valid;
+    onValidityChange?.(valid, result);
+  }, [result, onValidityChange]);
+
+  const settled = settledValue === value;
+  const showError = settled && result !== null && !result.valid && !(focused && isTypingDomain(value, result));
+  const showValid = settled && result !== null && result.valid;
+
+  return (
+    <div className={className}>
+      {label && (
+        <label htmlFor={inputId} className="block text-sm font-semibold text-slate-700 mb-1">
+          {label}
+        </label>
+      )}
+      <input
+        autoComplete="email"
+        spellCheck={false}
+        {...inputProps}
+        id={inputId}
+        type="text" // not type="email": browser constraint validation would block internationalized addresses
+        inputMode="email"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onFocus={(e) => {
+          setFocused(true);
+          onFocus?.(e);
+        }}
+        onBlur={(e) => {
+          setFocused(false);
+          setSettledValue(value);
+          onBlur?.(e);
+        }}
+        aria-invalid={showError}
+        aria-describedby={showError ? messageId : undefined}
+        className={`w-full px-3 py-2 border-2 rounded-lg font-mono text-sm focus:outline-none ${
+          showError ? 'border-red-400' : showValid ? 'border-green-400' : 'border-slate-300 focus:border-blue-500'
+        }`}
+      />
+      <p id={messageId} aria-live="polite" className="text-xs text-red-700 mt-1 min-h-[1rem]">
+        {showError ? result?.reason : ''}
+      </p>
+    </div>
+  );
+}
+
 function EmailValidator() {
-  const [testResults, setTestResults] = useState<Array<{ passed: boolean; email: string; expected: boolean; actual: boolean; description: string }>>([]);
+  const [testResults, setTestResults] = useState<Array<{ passed: boolean; email: string; expected: boolean; actual: boolean; description: string; reason: string | null; code: EmailRejectionCode | null; expectedCode: EmailRejectionCode | null; suffix?: SuffixMatch; tags: EmailTag[] }>>([]);
   const [customInput, setCustomInput] = useState('');
-  const [customResults, setCustomResults] = useState<Array<{ email: string; expected: boolean; actual: boolean; passed: boolean; note: string }>>([]);
+  const [customResults, setCustomResults] = useState<Array<{ email: string; expected: boolean; actual: boolean; passed: boolean; note: string; reason: string | null; code: EmailRejectionCode | null; expectedCode: EmailRejectionCode | null; suffix?: SuffixMatch; tags: EmailTag[]; suggestion: string | null }>>([]);
+  const [customErrors, setCustomErrors] = useState<TestCaseParseError[]>([]);
+  const [suites, setSuites] = useState<TestSuite[]>([]);
+  const [suiteRuns, setSuiteRuns] = useState<SuiteRun[]>([]);
+  const [dragActive, setDragActive] = useState(false);
+  const [disagreementsOnly, setDisagreementsOnly] = useState(false);
+
+  // TEST_CASES (practical expectations) plus every loaded suite, through all versions
+  const comparisonRows = useMemo(
+    () => compareValidators(
+      [
+        ...TEST_CASES.map(test => ({ email: test.email, description: test.description, expected: test.expected.practical })),
+        ...suites.flatMap(suite => suite.cases.map(test => ({
+          email: test.email,
+          description: `${suite.name}:${test.line}${test.note ? ` ${test.note}` : ''}`,
+          expected: test.expected,
+        }))),
+      ],
+      VALIDATOR_VERSIONS
+    ),
+    [suites]
+  );
+  const comparisonScores = scoreValidators(comparisonRows, VALIDATOR_VERSIONS);
+  const [mode, setMode] = useState<ValidationMode>('practical');
+  const [checkSuffix, setCheckSuffix] = useState(false);
+  const [verifyDns, setVerifyDns] = useState(false);
+  const [dnsResults, setDnsResults] = useState<Record<string, DomainVerificationResult>>({});
+  const [dnsChecks, setDnsChecks] = useState<Awaited<ReturnType<typeof checkDnsCases>> | null>(null);
+  const dnsRequested = useRef(new Set<string>());
+  const [previousRun, setPreviousRun] = useState<{ name: string; run: ExportedRun } | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [stripSubaddress, setStripSubaddress] = useState(true);
+  const [inputMode, setInputMode] = useState<'tests' | 'extract'>('tests');
+  const highlightRef = useRef<HTMLDivElement>(null);
+  const [bulkFile, setBulkFile] = useState<{ name: string; header: string | null } | null>(null);
+  const [bulkProgress, setBulkProgress] = useState<BulkProgress | null>(null);
+  const [bulkResult, setBulkResult] = useState<BulkResult | null>(null);
+  const [bulkError, setBulkError] = useState<string | null>(null);
+  const [suiteLoadErrors, setSuiteLoadErrors] = useState<string[]>([]);
+  const bulkAbort = useRef<AbortController | null>(null);
+  const [regexSafety, setRegexSafety] = useState<RegexSafetyReport | null>(null);
+  const [liveEmail, setLiveEmail] = useState('');
+  const [liveValid, setLiveValid] = useState(false);
+  const [policy, setPolicy] = useState<EmailPolicy>(DEFAULT_EMAIL_POLICY);
+  const [policyInput, setPolicyInput] = useState('');
+  const compiledPolicy = useMemo(() => {
+    try {
+      return { validate: compileEmailPolicy(policy), error: null };
+    } catch (error) {
+      return { validate: null, error: (error as Error).message };
+    }
+  }, [policy]);
+  const policyJson = JSON.stringify(
+    {
+      ...policy,
+      allowedDomains: policy.allowedDomains.map(domain => domain.trim()).filter(Boolean),
+      blockedDomains: policy.blockedDomains.map(domain => domain.trim()).filter(Boolean),
+    },
+    null,
+    2
+  );
+  const trace = useMemo(() => (liveEmail ? traceEmailPattern(liveEmail) : null), [liveEmail]);
+  const [fuzzRun, setFuzzRun] = useState<PropertyRunResult | null>(null);
+  const [fuzzRuns, setFuzzRuns] = useState(500);
+  const [fuzzSeed, setFuzzSeed] = useState('');
+
+  const extractedEmails = useMemo(
+    () => (inputMode === 'extract' ? findEmails(customInput) : []),
+    [inputMode, customInput]
+  );
+
+  const extractionChecks = useMemo(
+    () => EXTRACTION_CASES.map(test => {
+      const actual = findEmails(test.text).map(match => match.email);
+      return { ...test, actual, passed: actual.join('\n') === test.expected.join('\n') };
+    }),
+    []
+  );
 
-  const runTests = () => {
-    const results = TEST_CASES.map(test => {
-      const actual = isValidEmail(test.email);
+  const suggestionChecks = useMemo(
+    () => SUGGESTION_CASES.map(test => {
+      const actual = suggestEmail(test.email)?.suggestion ?? null;
+      return { ...test, actual, passed: actual === test.expected };
+    }),
+    []
+  );
+
+  const runTests = (activeMode: ValidationMode = mode, suffixCheck: boolean = checkSuffix) => {
+    const results = TEST_CASES.map(({ code: testCode, ...test }) => {
+      const { valid: actual, reason, code, suffix, tags } = classifyEmail(test.email, activeMode, { checkPublicSuffix: suffixCheck });
+      const expected = suffixCheck && test.expectedWithSuffixCheck !== undefined
+        ? test.expectedWithSuffixCheck
+        : test.expected[activeMode];
+      const expectedCode = testCode ?? null;
       return {
         ...test,
+        expected,
+        expectedCode,
         actual,
-        passed: actual === test.expected
+        code,
+        reason,
+        suffix,
+        tags,
+        passed: actual === expected && (expectedCode === null || code === expectedCode)
       };
     });
     setTestResults(results);
+    if (verifyDns) verifyDomains(results.filter(result => result.actual).map(result => result.email));
   };
 
-  const parseCustomTests = () => {
-    const lines = customInput.split('\n').filter(line => line.trim());
-    const results = lines.map(line => {
-      // Parse: (note) true/false email
-      let note = '';
-      let remaining = line.trim();
-      
-      // Extract note if present
-      const noteMatch = remaining.match(/^\(([^)]*)\)/);
-      if (noteMatch) {
-        note = noteMatch[1];
-        remaining = remaining.slice(noteMatch[0].length).trim();
-      }
-      
-      // Extract expected result
-      const parts = remaining.split(/\s+/);
-      const expectedStr = parts[0];
-      const email = parts.slice(1).join(' '); // rejoin in case of spaces (will fail validation)
-      
-      const expected = expectedStr === 'true';
-      const actual = isValidEmail(email);
+  // Looks up each domain once; results fill in as the resolver answers
+  const verifyDomains = (emails: string[]) => {
+    for (const email of emails) {
+      const domain = dnsDomain(email);
+      if (isAddressLiteral(domain) || dnsRequested.current.has(domain)) continue;
+      dnsRequested.current.add(domain);
+      verifyEmailDomain(email, DEMO_RESOLVER).then(result => setDnsResults(current => ({ ...current, [domain]: result })));
+    }
+  };
+
+  // Built-in and custom results as one run, for export and for diffing against an imported run
+  const currentRun = () => {
+    const results: ExportedResult[] = [
+      ...testResults.map(({ email, expected, actual, passed, description, reason }) => ({ suite: BUILT_IN_SUITE, email, expected, actual, passed, description, reason })),
+      ...customResults.map(({ email, expected, actual, passed, note, reason }) => ({ suite: 'custom', email, expected, actual, passed, description: note, reason })),
+    ];
+    return createRun(results, mode, checkSuffix);
+  };
+
+  const exportRun = (format: 'junit' | 'json' | 'csv') => {
+    const run = currentRun();
+    const stamp = run.exportedAt.replace(/[:.]/g, '-');
+    if (format === 'junit') downloadText(`email-validator-${stamp}.xml`, toJUnitXml(run), 'application/xml');
+    if (format === 'json') downloadText(`email-validator-${stamp}.json`, toJson(run), 'application/json');
+    if (format === 'csv') downloadText(`email-validator-${stamp}.csv`, toCsv(run), 'text/csv');
+  };
+
+  const importRun = async (file: File) => {
+    try {
+      setPreviousRun({ name: file.name, run: parseRunJson(await file.text()) });
+      setImportError(null);
+    } catch (error) {
+      setImportError(`${file.name}: ${(error as Error).message}`);
+    }
+  };
+
+  const toggleVerifyDns = () => {
+    if (!verifyDns) {
+      verifyDomains([...testResults, ...customResults].filter(result => result.actual).map(result => result.email));
+      checkDnsCases().then(setDnsChecks);
+    }
+    setVerifyDns(!verifyDns);
+  };
+
+  const parseCustomTests = (activeMode: ValidationMode = mode, suffixCheck: boolean = checkSuffix) => {
+    const { cases, errors } = parseTestCaseLines(customInput);
+    const results = cases.map(({ note, expected, email, code: expectedCode }) => {
+      const { valid: actual, reason, code, suffix, tags } = classifyEmail(email, activeMode, { checkPublicSuffix: suffixCheck });
       
       return {
         email,
         expected,
+        expectedCode,
         actual,
-        passed: actual === expected,
+        code,
+        reason,
+        suffix,
+        tags,
+        suggestion: suggestEmail(email)?.suggestion ?? null,
+        passed: actual === expected && (expectedCode === null || code === expectedCode),
         note
       };
     });
+    setCustomErrors(errors);
     setCustomResults(results);
+    if (verifyDns) verifyDomains(results.filter(result => result.actual).map(result => result.email));
+  };
+
+  // Changing settings re-runs whatever results are already on screen
+  const rerun = (nextMode: ValidationMode, nextSuffixCheck: boolean) => {
+    if (testResults.length > 0) runTests(nextMode, nextSuffixCheck);
+    if (customResults.length > 0 || customErrors.length > 0) parseCustomTests(nextMode, nextSuffixCheck);
+    if (suiteRuns.length > 0) runAllSuites(suites, nextMode, nextSuffixCheck);
+    if (fuzzRun) runFuzz(nextMode, fuzzRun.seed);
+  };
+
+  // Generated addresses use random TLDs, so the public suffix check is left out here
+  const runFuzz = (activeMode: ValidationMode = mode, seed = fuzzSeed.trim() ? Number(fuzzSeed) : undefined) => {
+    setFuzzRun(runPropertyFuzz(email => isValidEmail(email, activeMode), { runs: fuzzRuns, seed }));
+  };
+
+  const addFuzzFailuresToCustom = (run: PropertyRunResult) => {
+    setInputMode('tests');
+    setCustomInput(current => [current.trimEnd(), failuresToTestCases(run)].filter(Boolean).join('\n'));
   };
 
+  // Files in the (note) true/false email format become named suites; same name replaces
+  // Each file loads on its own, so one unreadable file only costs that suite
+  const loadSuiteFiles = async (files: FileList | File[]) => {
+    const outcomes = await Promise.all(
+      Array.from(files).map(async (file): Promise<TestSuite | string> => {
+        try {
+          return { name: file.name.replace(/\.[^.]+$/, ''), ...parseTestCaseLines(await file.text()) };
+        } catch (error) {
+          return `${file.name}: ${(error as Error).message}`;
+        }
+      })
+    );
+    const loaded = outcomes.filter((outcome): outcome is TestSuite => typeof outcome !== 'string');
+    setSuiteLoadErrors(outcomes.filter((outcome): outcome is string => typeof outcome === 'string'));
+    setSuites(current => [...current.filter(suite => !loaded.some(next => next.name === suite.name)), ...loaded]);
+    setSuiteRuns([]);
+  };
+
+  const removeSuite = (name: string) => {
+    setSuites(current => current.filter(suite => suite.name !== name));
+    setSuiteRuns(current => current.filter(run => run.name !== name));
+  };
+
+  // TEST_CASES runs as the first suite, with its expectations for the active settings
+  const runAllSuites = (loaded: TestSuite[] = suites, activeMode: ValidationMode = mode, suffixCheck: boolean = checkSuffix) => {
+    const builtIn: TestSuite = {
+      name: BUILT_IN_SUITE,
+      cases: TEST_CASES.map((test, idx) => ({
+        line: idx + 1,
+        note: test.description,
+        expected: suffixCheck && test.expectedWithSuffixCheck !== undefined ? test.expectedWithSuffixCheck : test.expected[activeMode],
+        email: test.email,
+        code: test.code ?? null,
+      })),
+      errors: [],
+    };
+    setSuiteRuns([builtIn, ...loaded].map(suite => runSuite(suite, activeMode, { checkPublicSuffix: suffixCheck })));
+  };
+
+  const changeMode = (nextMode: ValidationMode) => {
+    setMode(nextMode);
+    rerun(nextMode, checkSuffix);
+  };
+
+  const toggleSuffixCheck = () => {
+    setCheckSuffix(!checkSuffix);
+    rerun(mode, !checkSuffix);
+  };
+
+  // Validates an uploaded list in chunks so 100k-line files don't freeze the page
+  const runBulk = async (file: File) => {
+    bulkAbort.current?.abort();
+    const controller = new AbortController();
+    bulkAbort.current = controller;
+    setBulkError(null);
+    try {
+      const { header, rows } = parseAddressFile(await file.text(), file.name);
+      setBulkFile({ name: file.name, header });
+      setBulkResult(null);
+      setBulkProgress({ processed: 0, total: rows.length, valid: 0, invalid: 0, byCode: {} });
+      const result = await validateInChunks(
+        rows,
+        email => validateEmailDetailed(email, mode, { checkPublicSuffix: checkSuffix }),
+        { onProgress: setBulkProgress, signal: controller.signal }
+      );
+      if (bulkAbort.current === controller) setBulkResult(result);
+    } catch (error) {
+      if (bulkAbort.current !== controller) return;
+      setBulkProgress(null);
+      setBulkResult(null);
+      setBulkError(`${file.name}: ${(error as Error).message}`);
+    }
+  };
+
+  const downloadBulkRows = (rows: AddressRow[], label: 'valid' | 'invalid') => {
+    if (!bulkFile) return;
+    const lines = [...(bulkFile.header !== null ? [bulkFile.header] : []), ...rows.map(row => row.raw)];
+    const extension = bulkFile.name.match(/\.[^.]+$/)?.[0] ?? '.txt';
+    downloadText(`${bulkFile.name.replace(/\.[^.]+$/, '')}-${label}${extension}`, `${lines.join('\n')}\n`);
+  };
+
+  const canonicalForms = customResults.map(result => canonicalizeEmail(result.email, { stripSubaddress }));
+  const runDiff = previousRun ? diffRuns(previousRun.run, currentRun()) : null;
+
   const passedCount = testResults.filter(r => r.passed).length;
   const totalCount = testResults.length;
 
@@ -152,13 +1487,61 @@ function EmailValidator() {
       <div className="grid grid-cols-2 gap-6">
         {/* Left Column - Test Results */}
         <div className="bg-white rounded-xl shadow-lg p-8">
+          <div className="flex gap-2 mb-4">
+            {(['practical', 'rfc'] as const).map(option => (
+              <button
+                key={option}
+                onClick={() => changeMode(option)}
+                className={`px-4 py-2 rounded-lg text-sm font-semibold transition-colors ${
+                  mode === option
+                    ? 'bg-slate-800 text-white'
+                    : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
+                }`}
+              >
+                {option === 'practical' ? 'Practical' : 'RFC 5321/5322'}
+              </button>
+            ))}
+            <label className="flex items-center gap-2 ml-auto text-sm text-slate-700">
+              <input type="checkbox" checked={checkSuffix} onChange={toggleSuffixCheck} />
+              Public suffix check
+              <span className="text-xs text-slate-400">(PSL {PUBLIC_SUFFIX_VERSION})</span>
+            </label>
+            <label className="flex items-center gap-2 text-sm text-slate-700">
+              <input type="checkbox" checked={verifyDns} onChange={toggleVerifyDns} />
+              Verify domains (MX/A)
+              <span className="text-xs text-slate-400">(demo resolver)</span>
+            </label>
+          </div>
+          {verifyDns && dnsChecks && (
+            <div className={`text-xs mb-4 ${dnsChecks.every(check => check.passed) ? 'text-slate-500' : 'text-red-700'}`}>
+              Resolver cases: {dnsChecks.filter(check => check.passed).length}/{dnsChecks.length} pass
+              {dnsChecks.filter(check => !check.passed).map(check => (
+                <div key={check.description} className="font-mono">
+                  ✗ {check.description}: {check.email} gave {check.actual}, expected {check.domain} {check.status}
+                </div>
+              ))}
+            </div>
+          )}
+
           <div className="bg-slate-50 rounded-lg p-4 mb-6">
             <h2 className="text-sm font-semibold text-slate-700 mb-2">Validation Rules</h2>
-            <ul className="text-sm text-slate-600 space-y-1">
-              <li>✓ Accepts: letters, digits, ._%+- and hyphens/underscores</li>
-              <li>✓ Long TLDs (2-63 letters), deep subdomains, mixed case</li>
-              <li>✗ Rejects: whitespace, consecutive dots, quoted strings, invalid chars</li>
-            </ul>
+            {mode === 'practical' ? (
+              <ul className="text-sm text-slate-600 space-y-1">
+                <li>✓ Accepts: letters, digits, ._%+- and hyphens/underscores</li>
+                <li>✓ Unicode local parts and IDN domains (checked in punycode form)</li>
+                <li>✓ Long TLDs (2-63 letters), deep subdomains, mixed case</li>
+                <li>✗ Rejects: whitespace, consecutive dots, quoted strings, invalid chars</li>
+                <li>✗ Length limits: 64 local, 63 per label, 253 domain, 254 total</li>
+              </ul>
+            ) : (
+              <ul className="text-sm text-slate-600 space-y-1">
+                <li>✓ Accepts: all RFC 5322 atext symbols, "quoted strings", (comments)</li>
+                <li>✓ Single-label domains, [IPv4], [IPv6:...] and [tag:content] literals</li>
+                <li>✓ RFC 6531 UTF-8 local parts and IDN domains</li>
+                <li>✗ Rejects: bare whitespace, unclosed quotes/comments, numeric TLDs</li>
+                <li>✗ Length limits: 64 local, 63 per label, 253 domain, 254 total</li>
+              </ul>
+            )}
           </div>
 
           <div className="bg-blue-50 rounded-lg p-4 mb-6 border border-blue-200">
@@ -166,33 +1549,121 @@ function EmailValidator() {
             <div className="space-y-2">
               <div>
                 <div className="text-xs text-blue-600 font-mono mb-1">LOCAL_PART</div>
-                <div className="text-xs text-slate-700 font-mono bg-white p-2 rounded break-all">
-                  {LOCAL_CHAR}+(?:\\.{LOCAL_CHAR}+)*
+                <div className="bg-white p-2 rounded">
+                  <RailroadDiagram pattern={LOCAL_PART} title="LOCAL_PART" />
+                  <div className="text-xs text-slate-400 font-mono break-all mt-1">{LOCAL_CHAR}+(?:\\.{LOCAL_CHAR}+)*</div>
                 </div>
               </div>
               <div>
                 <div className="text-xs text-blue-600 font-mono mb-1">DOMAIN_LABELS</div>
-                <div className="text-xs text-slate-700 font-mono bg-white p-2 rounded break-all">
-                  {LABEL_CHAR}(?:\\.{LABEL_CHAR})*
+                <div className="bg-white p-2 rounded">
+                  <RailroadDiagram pattern={DOMAIN_LABELS} title="DOMAIN_LABELS" />
+                  <div className="text-xs text-slate-400 font-mono break-all mt-1">{LABEL_CHAR}(?:\\.{LABEL_CHAR})*</div>
                 </div>
               </div>
               <div>
                 <div className="text-xs text-blue-600 font-mono mb-1">TLD</div>
-                <div className="text-xs text-slate-700 font-mono bg-white p-2 rounded break-all">
-                  [a-zA-Z]{'{2,63}'}
+                <div className="bg-white p-2 rounded">
+                  <RailroadDiagram pattern={TLD} title="TLD" />
+                  <div className="text-xs text-slate-400 font-mono break-all mt-1">{TLD}</div>
                 </div>
               </div>
+              <div className="pt-2 border-t border-blue-200">
+                <div className="text-xs text-blue-600 font-mono mb-1">TRACE</div>
+                {!trace && <div className="text-xs text-slate-500">Type an address in Live check to trace it</div>}
+                {trace && (
+                  <div className="text-xs bg-white p-2 rounded">
+                    <div className="font-mono text-sm mb-2 break-all">
+                      {trace.steps.map((step, idx) => (
+                        <span key={idx} className={step.matched ? TRACE_STYLES[step.subpattern] : ''}>
+                          {trace.text.slice(step.start, step.end)}
+                        </span>
+                      ))}
+                      {!trace.matched && (
+                        <span className="bg-red-100 text-red-700 border-l-2 border-red-600">
+                          {trace.text.slice(trace.steps[trace.steps.length - 1].start) || ' '}
+                        </span>
+                      )}
+                    </div>
+                    {trace.text !== liveEmail && <div className="text-slate-500 mb-1">Domain checked in punycode form</div>}
+                    <ol className="space-y-1">
+                      {trace.steps.map((step, idx) => (
+                        <li key={idx} className={step.matched ? 'text-slate-700' : 'text-red-700 font-semibold'}>
+                          {step.matched ? '✓' : '✗'} <span className="font-mono">{step.subpattern}</span>{' '}
+                          {step.end > step.start
+                            ? <>consumed <span className="font-mono">"{trace.text.slice(step.start, step.end)}"</span> (chars {step.start + 1}-{step.end})</>
+                            : `at position ${step.start + 1}`}
+                          : {step.note}
+                        </li>
+                      ))}
+                    </ol>
+                  </div>
+                )}
+              </div>
               <div className="pt-2 border-t border-blue-200">
                 <div className="text-xs text-blue-600 font-mono mb-1">FINAL REGEX</div>
                 <div className="text-xs text-slate-700 font-mono bg-white p-2 rounded break-all">
                   ^{LOCAL_PART}@{DOMAIN_LABELS}\.{TLD}$
                 </div>
               </div>
+              <div className="pt-2 border-t border-blue-200">
+                <div className="flex items-center justify-between mb-1">
+                  <div className="text-xs text-blue-600 font-mono">ReDoS CHECK</div>
+                  <button
+                    onClick={() => setRegexSafety(checkRegexSafety(EMAIL_REGEX))}
+                    className="text-xs px-2 py-1 rounded bg-white border border-blue-300 text-blue-700 hover:bg-blue-100"
+                  >
+                    {regexSafety ? 'Re-run' : 'Run check'}
+                  </button>
+                </div>
+                {regexSafety && (
+                  <div className="text-xs bg-white p-2 rounded space-y-1">
+                    <div className={`font-semibold ${regexSafety.safe ? 'text-green-700' : 'text-red-700'}`}>
+                      {regexSafety.safe ? 'No catastrophic backtracking found' : 'Pattern is vulnerable to catastrophic backtracking'}
+                    </div>
+                    {regexSafety.issues.length === 0 ? (
+                      <div className="text-slate-600">Static scan: no nested or overlapping unbounded quantifiers</div>
+                    ) : (
+                      regexSafety.issues.map((issue, idx) => (
+                        <div key={idx} className={issue.severity === 'high' ? 'text-red-700' : 'text-amber-700'}>
+                          [{issue.kind}] {issue.message}
+                        </div>
+                      ))
+                    )}
+                    <table className="w-full font-mono mt-1">
+                      <tbody>
+                        {regexSafety.fuzz.map(result => (
+                          <tr key={result.name} className={result === regexSafety.worst ? 'font-semibold' : ''}>
+                            <td className="pr-2 text-slate-700">{result.name}</td>
+                            <td className="pr-2 text-slate-500 text-right">{result.length} chars</td>
+                            <td className={`text-right ${result.exceededBudget ? 'text-red-700' : 'text-slate-700'}`}>
+                              {result.ms.toFixed(2)} ms{result.exceededBudget ? ' (over budget)' : ''}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                    {regexSafety.worst && (
+                      <div className="text-slate-600">
+                        Worst case: {regexSafety.worst.name} at {regexSafety.worst.length} chars, {regexSafety.worst.ms.toFixed(2)} ms
+                      </div>
+                    )}
+                    <div className={regexSafety.selfTest.every(test => test.flagged) ? 'text-slate-600' : 'text-red-700'}>
+                      Analyzer self-test: {regexSafety.selfTest.filter(test => test.flagged).length}/{regexSafety.selfTest.length} known-unsafe patterns flagged
+                    </div>
+                    {regexSafety.selfTest.filter(test => !test.flagged).map(test => (
+                      <div key={test.pattern} className="text-red-700 font-mono">
+                        missed [{test.kind}] /{test.pattern}/
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
             </div>
           </div>
 
           <button
-            onClick={runTests}
+            onClick={() => runTests()}
             className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-6 py-3 rounded-lg font-semibold transition-colors mb-6"
           >
             <Play size={20} />
@@ -232,13 +1703,22 @@ function EmailValidator() {
                         <div className="font-mono text-xs text-slate-800 break-all mb-1">
                           {result.email}
                         </div>
+                        <IdnForms email={result.email} />
+                        {result.suffix && <SuffixInfo suffix={result.suffix} />}
+                        <TagBadges tags={result.tags} />
                         <div className="text-xs text-slate-600">{result.description}</div>
                         {!result.passed && (
                           <div className="text-xs text-red-700 mt-1">
-                            Expected: {result.expected.toString()}, Got: {result.actual.toString()}
+                            Expected: {result.expected.toString()}{result.expectedCode && ` (${result.expectedCode})`}, Got: {result.actual.toString()}{result.code && ` (${result.code})`}
+                          </div>
+                        )}
+                        {result.reason && (
+                          <div className={`text-xs mt-1 ${result.passed ? 'text-slate-500' : 'text-red-700'}`}>
+                            Reason: {result.reason}
                           </div>
                         )}
                       </div>
+                      {verifyDns && result.actual && <DnsBadge domain={dnsDomain(result.email)} result={dnsResults[dnsDomain(result.email)]} />}
                     </div>
                   </div>
                 ))}
@@ -249,25 +1729,140 @@ function EmailValidator() {
 
         {/* Right Column - Try Your Own */}
         <div className="bg-white rounded-xl shadow-lg p-8">
-          <h2 className="text-2xl font-bold text-slate-800 mb-4">Try Your Own</h2>
-          <p className="text-slate-600 mb-4">
-            Format: <code className="bg-slate-100 px-2 py-1 rounded text-sm">(note) true/false email</code>
-          </p>
+          <div className="mb-6">
+            <EmailInput
+              label="Live check"
+              value={liveEmail}
+              onChange={setLiveEmail}
+              onValidityChange={setLiveValid}
+              mode={mode}
+              options={{ checkPublicSuffix: checkSuffix }}
+              placeholder="Start typing an address"
+              autoComplete="off"
+            />
+            <div className="text-xs text-slate-500">
+              onValidityChange: <span className={liveValid ? 'text-green-700' : 'text-slate-700'}>{liveValid ? 'valid' : 'invalid'}</span>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-2xl font-bold text-slate-800">Try Your Own</h2>
+            <div className="flex gap-2">
+              {(['tests', 'extract'] as const).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setInputMode(option)}
+                  className={`px-3 py-1 rounded-lg text-sm font-semibold transition-colors ${
+                    inputMode === option
+                      ? 'bg-slate-800 text-white'
+                      : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
+                  }`}
+                >
+                  {option === 'tests' ? 'Test cases' : 'Extract from text'}
+                </button>
+              ))}
+            </div>
+          </div>
+          {inputMode === 'tests' ? (
+            <p className="text-slate-600 mb-4">
+              Format: <code className="bg-slate-100 px-2 py-1 rounded text-sm">(note) true/false email [reason-code] # comment</code>
+              <span className="block text-xs text-slate-500 mt-2">
+                Quote emails that contain spaces: <code>false "user @example.com"</code>. Lines starting with # are ignored.
+              </span>
+            </p>
+          ) : (
+            <p className="text-slate-600 mb-4">
+              Paste any text (CSV, signatures, logs); embedded addresses are highlighted as you type.
+            </p>
+          )}
           
-          <textarea
-            value={customInput}
-            onChange={(e) => setCustomInput(e.target.value)}
-            placeholder="(basic test) true user@example.com&#10;(has space) false user @example.com&#10;(long TLD) true admin@site.technology"
-            className="w-full h-64 p-4 border-2 border-slate-200 rounded-lg font-mono text-sm focus:border-blue-500 focus:outline-none mb-4"
-          />
+          <div className="relative mb-4">
+            {/* Highlight layer: same box and font as the textarea, text transparent except the matches */}
+            {inputMode === 'extract' && (
+              <div
+                ref={highlightRef}
+                aria-hidden="true"
+                className="absolute inset-0 p-4 border-2 border-transparent rounded-lg font-mono text-sm whitespace-pre-wrap break-words overflow-hidden text-transparent pointer-events-none"
+              >
+                {extractedEmails.map((match, idx) => (
+                  <React.Fragment key={match.start}>
+                    {customInput.slice(idx === 0 ? 0 : extractedEmails[idx - 1].end, match.start)}
+                    <mark className="bg-yellow-200 text-transparent rounded">{match.email}</mark>
+                  </React.Fragment>
+                ))}
+                {customInput.slice(extractedEmails.length > 0 ? extractedEmails[extractedEmails.length - 1].end : 0)}
+              </div>
+            )}
+            <textarea
+              value={customInput}
+              onChange={(e) => setCustomInput(e.target.value)}
+              onScroll={(e) => {
+                if (highlightRef.current) highlightRef.current.scrollTop = e.currentTarget.scrollTop;
+              }}
+              placeholder={inputMode === 'tests'
+                ? '# comments are ignored\n(basic test) true user@example.com\n(has space) false "user @example.com" whitespace\n(long TLD) true admin@site.technology'
+                : 'Jane Doe <jane.doe@example.com>, (ops@example.org).\n2024-05-01 WARN bounce from=alerts+x@mail.example.io'}
+              className="relative w-full h-64 p-4 border-2 border-slate-200 rounded-lg font-mono text-sm bg-transparent focus:border-blue-500 focus:outline-none"
+            />
+          </div>
 
-          <button
-            onClick={parseCustomTests}
-            className="flex items-center gap-2 bg-green-600 hover:bg-green-700 text-white px-6 py-3 rounded-lg font-semibold transition-colors mb-6"
-          >
-            <Play size={20} />
-            Parse & Test
-          </button>
+          {inputMode === 'extract' && (
+            <div className="mb-6">
+              <h3 className="text-xl font-semibold text-slate-800 mb-2">
+                {extractedEmails.length} address{extractedEmails.length === 1 ? '' : 'es'} found
+              </h3>
+              <div className={`text-xs mb-2 ${extractionChecks.every(check => check.passed) ? 'text-slate-500' : 'text-red-700'}`}>
+                Extraction cases: {extractionChecks.filter(check => check.passed).length}/{extractionChecks.length} pass
+                {extractionChecks.filter(check => !check.passed).map(check => (
+                  <div key={check.text} className="font-mono">
+                    ✗ {check.description}: {JSON.stringify(check.text)} gave [{check.actual.join(', ')}], expected [{check.expected.join(', ')}]
+                  </div>
+                ))}
+              </div>
+              <div className="space-y-1">
+                {extractedEmails.map(match => (
+                  <div key={match.start} className="flex items-center gap-2 text-xs">
+                    <span className="font-mono text-slate-800 break-all">{match.email}</span>
+                    <span className="text-slate-500">[{match.start}, {match.end})</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {inputMode === 'tests' && (
+            <button
+              onClick={() => parseCustomTests()}
+              className="flex items-center gap-2 bg-green-600 hover:bg-green-700 text-white px-6 py-3 rounded-lg font-semibold transition-colors mb-6"
+            >
+              <Play size={20} />
+              Parse & Test
+            </button>
+          )}
+
+          {inputMode === 'tests' && (
+            <div className={`text-xs mb-6 ${suggestionChecks.every(check => check.passed) ? 'text-slate-500' : 'text-red-700'}`}>
+              Suggestion cases: {suggestionChecks.filter(check => check.passed).length}/{suggestionChecks.length} pass
+              {suggestionChecks.filter(check => !check.passed).map(check => (
+                <div key={check.email} className="font-mono">
+                  ✗ {check.description}: {check.email} gave {check.actual ?? 'no suggestion'}, expected {check.expected ?? 'no suggestion'}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {customErrors.length > 0 && (
+            <div className="bg-red-50 border-2 border-red-200 rounded-lg p-4 mb-6">
+              <h3 className="text-sm font-semibold text-red-800 mb-2">
+                {customErrors.length} line{customErrors.length === 1 ? '' : 's'} could not be parsed
+              </h3>
+              <ul className="text-xs text-red-700 font-mono space-y-1">
+                {customErrors.map(error => (
+                  <li key={error.line}>Line {error.line}: {error.message}</li>
+                ))}
+              </ul>
+            </div>
+          )}
 
           {customResults.length > 0 && (
             <div>
@@ -305,19 +1900,650 @@ function EmailValidator() {
                         <div className="font-mono text-xs text-slate-800 break-all mb-1">
                           {result.email}
                         </div>
+                        <IdnForms email={result.email} />
+                        {result.suffix && <SuffixInfo suffix={result.suffix} />}
+                        <TagBadges tags={result.tags} />
                         {!result.passed && (
                           <div className="text-xs text-red-700">
-                            Expected: {result.expected.toString()}, Got: {result.actual.toString()}
+                            Expected: {result.expected.toString()}{result.expectedCode && ` (${result.expectedCode})`}, Got: {result.actual.toString()}{result.code && ` (${result.code})`}
+                          </div>
+                        )}
+                        {result.suggestion && (
+                          <div className="text-xs text-amber-700">
+                            Did you mean <span className="font-mono">{result.suggestion}</span>?
+                          </div>
+                        )}
+                        {result.reason && (
+                          <div className={`text-xs ${result.passed ? 'text-slate-500' : 'text-red-700'}`}>
+                            Reason: {result.reason}
                           </div>
                         )}
                       </div>
+                      {verifyDns && result.actual && <DnsBadge domain={dnsDomain(result.email)} result={dnsResults[dnsDomain(result.email)]} />}
                     </div>
                   </div>
                 ))}
               </div>
             </div>
           )}
+
+          {customResults.length > 0 && (
+            <div className="bg-slate-50 rounded-lg p-4 mt-6">
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="text-sm font-semibold text-slate-700">Canonical Forms</h3>
+                <label className="flex items-center gap-2 text-xs text-slate-600">
+                  <input type="checkbox" checked={stripSubaddress} onChange={() => setStripSubaddress(!stripSubaddress)} />
+                  Strip +tags
+                </label>
+              </div>
+              <div className="space-y-1">
+                {customResults.map((result, idx) => (
+                  <div key={idx} className="flex items-center gap-2 text-xs font-mono break-all">
+                    <span className="text-slate-500">{result.email}</span>
+                    <span className="text-slate-400">→</span>
+                    <span className="text-slate-800">{canonicalForms[idx]}</span>
+                    {canonicalForms.indexOf(canonicalForms[idx]) !== idx && (
+                      <span className="px-2 py-0.5 rounded-full bg-amber-100 text-amber-800 font-sans font-semibold">
+                        duplicate of #{canonicalForms.indexOf(canonicalForms[idx]) + 1}
+                      </span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Export Results */}
+      <div className="bg-white rounded-xl shadow-lg p-8 mt-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-2xl font-bold text-slate-800">Export Results</h2>
+          <div className="flex gap-2">
+            {(['junit', 'json', 'csv'] as const).map(format => (
+              <button
+                key={format}
+                onClick={() => exportRun(format)}
+                disabled={testResults.length + customResults.length === 0}
+                className="flex items-center gap-2 bg-slate-100 hover:bg-slate-200 disabled:opacity-50 text-slate-700 px-4 py-3 rounded-lg font-semibold transition-colors"
+              >
+                <Download size={18} />
+                {format === 'junit' ? 'JUnit XML' : format.toUpperCase()}
+              </button>
+            ))}
+            <label className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-3 rounded-lg font-semibold transition-colors cursor-pointer">
+              <Upload size={18} />
+              Compare with previous run
+              <input
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) importRun(file);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+          </div>
+        </div>
+        <p className="text-slate-600 mb-4">
+          Exports the {BUILT_IN_SUITE} and custom results on screen ({testResults.length + customResults.length} cases, {mode} mode
+          {checkSuffix ? ', public suffix check' : ''}). Load a previously exported JSON run to see what changed since.
+        </p>
+        {importError && <div className="text-sm text-red-700 mb-4">{importError}</div>}
+
+        {runDiff && previousRun && (
+          <div>
+            <div className="flex items-center gap-3 mb-4 text-sm">
+              <span className="text-slate-600">
+                vs <span className="font-mono">{previousRun.name}</span> ({previousRun.run.mode}, {new Date(previousRun.run.exportedAt).toLocaleString()})
+              </span>
+              <span className="px-3 py-1 rounded-full font-semibold bg-amber-100 text-amber-800">{runDiff.changed.length} changed</span>
+              <span className="px-3 py-1 rounded-full font-semibold bg-green-100 text-green-800">{runDiff.added.length} added</span>
+              <span className="px-3 py-1 rounded-full font-semibold bg-red-100 text-red-800">{runDiff.removed.length} removed</span>
+              <span className="text-slate-500">{runDiff.unchanged} unchanged</span>
+              <button onClick={() => setPreviousRun(null)} className="ml-auto text-slate-400 hover:text-red-600" aria-label="Clear comparison">
+                <Trash2 size={16} />
+              </button>
+            </div>
+            {runDiff.settings.length > 0 && (
+              <div className="text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded p-2 mb-4">
+                Settings differ ({runDiff.settings.join(', ')}), so changed expectations may come from the settings rather than a regression
+              </div>
+            )}
+            {runDiff.changed.length + runDiff.added.length + runDiff.removed.length > 0 && (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-slate-500 border-b border-slate-200">
+                    <th className="py-2 font-semibold">Suite</th>
+                    <th className="py-2 font-semibold">Email</th>
+                    <th className="py-2 font-semibold">Change</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {runDiff.changed.map(({ before, after, fields }, idx) => (
+                    <tr key={`changed-${idx}`} className="border-b border-slate-100 bg-amber-50">
+                      <td className="py-1 pr-4 text-xs text-slate-500">{after.suite}</td>
+                      <td className="py-1 pr-4 font-mono text-xs text-slate-800 break-all">{after.email}</td>
+                      <td className="py-1 text-xs text-slate-700">
+                        {fields.map(field => (
+                          <div key={field}>
+                            {field}: {String(before[field] ?? '—')} → {String(after[field] ?? '—')}
+                          </div>
+                        ))}
+                      </td>
+                    </tr>
+                  ))}
+                  {runDiff.added.map((result, idx) => (
+                    <tr key={`added-${idx}`} className="border-b border-slate-100 bg-green-50">
+                      <td className="py-1 pr-4 text-xs text-slate-500">{result.suite}</td>
+                      <td className="py-1 pr-4 font-mono text-xs text-slate-800 break-all">{result.email}</td>
+                      <td className="py-1 text-xs text-slate-700">added ({result.passed ? 'passed' : 'failed'})</td>
+                    </tr>
+                  ))}
+                  {runDiff.removed.map((result, idx) => (
+                    <tr key={`removed-${idx}`} className="border-b border-slate-100 bg-red-50">
+                      <td className="py-1 pr-4 text-xs text-slate-500">{result.suite}</td>
+                      <td className="py-1 pr-4 font-mono text-xs text-slate-800 break-all">{result.email}</td>
+                      <td className="py-1 text-xs text-slate-700">removed (was {result.passed ? 'passing' : 'failing'})</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Test Suites */}
+      <div
+        className={`bg-white rounded-xl shadow-lg p-8 mt-6 border-2 ${dragActive ? 'border-blue-400 border-dashed' : 'border-transparent'}`}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setDragActive(true);
+        }}
+        onDragLeave={() => setDragActive(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setDragActive(false);
+          if (e.dataTransfer.files.length > 0) loadSuiteFiles(e.dataTransfer.files);
+        }}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-2xl font-bold text-slate-800">Test Suites</h2>
+          <div className="flex gap-2">
+            <label className="flex items-center gap-2 bg-slate-100 hover:bg-slate-200 text-slate-700 px-6 py-3 rounded-lg font-semibold transition-colors cursor-pointer">
+              <Upload size={20} />
+              Add suite files
+              <input
+                type="file"
+                multiple
+                accept=".md,.txt"
+                className="hidden"
+                onChange={(e) => {
+                  if (e.target.files) loadSuiteFiles(e.target.files);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+            <button
+              onClick={() => runAllSuites()}
+              className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-6 py-3 rounded-lg font-semibold transition-colors"
+            >
+              <Play size={20} />
+              Run All ({suites.length + 1} suites)
+            </button>
+          </div>
+        </div>
+        <p className="text-slate-600 mb-4">
+          Drop files like <code className="bg-slate-100 px-2 py-1 rounded text-sm">testcases.md</code> here; each file becomes a suite next to the built-in {BUILT_IN_SUITE}.
+        </p>
+        {suiteLoadErrors.map(error => (
+          <div key={error} className="text-sm text-red-700 mb-2">Could not load {error}</div>
+        ))}
+
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-slate-500 border-b border-slate-200">
+              <th className="py-2 font-semibold">Suite</th>
+              <th className="py-2 font-semibold">Cases</th>
+              <th className="py-2 font-semibold">Parse errors</th>
+              <th className="py-2 font-semibold">Result</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {[{ name: BUILT_IN_SUITE, cases: TEST_CASES, errors: [] }, ...suites].map(suite => {
+              const run = suiteRuns.find(candidate => candidate.name === suite.name);
+              return (
+                <React.Fragment key={suite.name}>
+                  <tr className="border-b border-slate-100">
+                    <td className="py-2 font-mono text-slate-800">{suite.name}</td>
+                    <td className="py-2 text-slate-700">{suite.cases.length}</td>
+                    <td className={`py-2 ${suite.errors.length > 0 ? 'text-red-700' : 'text-slate-400'}`}>{suite.errors.length}</td>
+                    <td className="py-2">
+                      {run ? (
+                        <span className={`px-3 py-1 rounded-full text-xs font-semibold ${
+                          run.passed === run.total ? 'bg-green-100 text-green-800' : 'bg-amber-100 text-amber-800'
+                        }`}>
+                          {run.passed} / {run.total} passed
+                        </span>
+                      ) : (
+                        <span className="text-slate-400">not run</span>
+                      )}
+                    </td>
+                    <td className="py-2 text-right">
+                      {suite.name !== BUILT_IN_SUITE && (
+                        <button onClick={() => removeSuite(suite.name)} className="text-slate-400 hover:text-red-600" aria-label={`Remove ${suite.name}`}>
+                          <Trash2 size={16} />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                  {run && run.failures.map(failure => (
+                    <tr key={`${suite.name}-${failure.line}`} className="text-xs text-red-700">
+                      <td className="pl-4 py-1" colSpan={5}>
+                        Line {failure.line}: <span className="font-mono">{failure.email}</span> expected {failure.expected.toString()}, got {failure.actual.toString()}
+                        {failure.reason && ` (${failure.reason})`}
+                      </td>
+                    </tr>
+                  ))}
+                </React.Fragment>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Version Comparison */}
+      <div className="bg-white rounded-xl shadow-lg p-8 mt-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-2xl font-bold text-slate-800">Version Comparison</h2>
+          <label className="flex items-center gap-2 text-sm text-slate-700">
+            <input type="checkbox" checked={disagreementsOnly} onChange={() => setDisagreementsOnly(!disagreementsOnly)} />
+            Only disagreements ({comparisonRows.filter(row => row.disagreement).length})
+          </label>
+        </div>
+        <p className="text-slate-600 mb-4">
+          Every test case through each registered version. Expected values are the practical-mode answers;
+          rows where versions disagree are highlighted and wrong answers are red.
+        </p>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-slate-500 border-b border-slate-200">
+                <th className="py-2 font-semibold">Email</th>
+                <th className="py-2 font-semibold">Case</th>
+                <th className="py-2 font-semibold text-center">Expected</th>
+                {VALIDATOR_VERSIONS.map(validator => (
+                  <th key={validator.id} className="py-2 font-semibold text-center">
+                    {validator.label}
+                    <div className="text-xs font-normal">
+                      {comparisonScores[validator.id].correct} / {comparisonScores[validator.id].total}
+                    </div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {comparisonRows
+                .filter(row => !disagreementsOnly || row.disagreement)
+                .map((row, idx) => (
+                  <tr key={idx} className={`border-b border-slate-100 ${row.disagreement ? 'bg-amber-50' : ''}`}>
+                    <td className="py-1 pr-4 font-mono text-xs text-slate-800 break-all">{row.email}</td>
+                    <td className="py-1 pr-4 text-xs text-slate-500">{row.description}</td>
+                    <td className="py-1 text-center text-xs text-slate-700">{row.expected === null ? '—' : row.expected ? '✓' : '✗'}</td>
+                    {VALIDATOR_VERSIONS.map(validator => {
+                      const accepted = row.results[validator.id];
+                      const wrong = row.expected !== null && accepted !== row.expected;
+                      return (
+                        <td key={validator.id} className={`py-1 text-center text-xs font-semibold ${wrong ? 'text-red-700' : 'text-green-700'}`}>
+                          {accepted ? '✓' : '✗'}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Property Fuzzing */}
+      <div className="bg-white rounded-xl shadow-lg p-8 mt-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-2xl font-bold text-slate-800">Property Fuzzing</h2>
+          <div className="flex items-center gap-2">
+            <label className="text-sm text-slate-600">
+              Cases{' '}
+              <input
+                type="number"
+                min={1}
+                max={100000}
+                value={fuzzRuns}
+                onChange={(e) => setFuzzRuns(Math.max(1, Number(e.target.value) || 1))}
+                className="w-24 px-2 py-1 border border-slate-300 rounded"
+              />
+            </label>
+            <label className="text-sm text-slate-600">
+              Seed{' '}
+              <input
+                value={fuzzSeed}
+                onChange={(e) => setFuzzSeed(e.target.value.replace(/\D/g, ''))}
+                placeholder="random"
+                className="w-24 px-2 py-1 border border-slate-300 rounded"
+              />
+            </label>
+            <button
+              onClick={() => runFuzz()}
+              className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-6 py-3 rounded-lg font-semibold transition-colors"
+            >
+              <Play size={20} />
+              Fuzz
+            </button>
+          </div>
         </div>
+        <p className="text-slate-600 mb-4">
+          Random addresses built from the LOCAL_PART, DOMAIN_LABELS and TLD grammar should be accepted; copies broken
+          with <code className="bg-slate-100 px-2 py-1 rounded text-sm">..</code>, edge hyphens, whitespace or{' '}
+          <code className="bg-slate-100 px-2 py-1 rounded text-sm">@@</code> should be rejected. Disagreements are
+          shrunk to the smallest address that still fails. Uses the current mode.
+        </p>
+
+        {fuzzRun && (
+          <div>
+            <div className="flex items-center gap-3 mb-4">
+              <span className={`px-3 py-1 rounded-full text-sm font-semibold ${
+                fuzzRun.failures.length === 0 ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+              }`}>
+                {fuzzRun.failures.length === 0 ? `${fuzzRun.runs} cases, no failures` : `${fuzzRun.failures.length} distinct failures in ${fuzzRun.runs} cases`}
+              </span>
+              <span className="text-sm text-slate-500">seed {fuzzRun.seed}</span>
+              {fuzzRun.failures.length > 0 && (
+                <>
+                  <button
+                    onClick={() => addFuzzFailuresToCustom(fuzzRun)}
+                    className="px-3 py-1 rounded-lg text-sm font-semibold bg-slate-100 text-slate-700 hover:bg-slate-200"
+                  >
+                    Add to custom tests
+                  </button>
+                  <button
+                    onClick={() => downloadText(`fuzz-${fuzzRun.seed}.txt`, `${failuresToTestCases(fuzzRun)}\n`)}
+                    className="flex items-center gap-1 px-3 py-1 rounded-lg text-sm font-semibold bg-slate-100 text-slate-700 hover:bg-slate-200"
+                  >
+                    <Download size={14} /> Test cases
+                  </button>
+                </>
+              )}
+            </div>
+
+            {fuzzRun.failures.length > 0 && (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-slate-500 border-b border-slate-200">
+                    <th className="py-2 font-semibold">Shrunk</th>
+                    <th className="py-2 font-semibold">Original</th>
+                    <th className="py-2 font-semibold">Mutation</th>
+                    <th className="py-2 font-semibold">Expected</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {fuzzRun.failures.map(failure => (
+                    <tr key={failure.shrunk.email} className="border-b border-slate-100">
+                      <td className="py-1 pr-4 font-mono text-xs text-red-700 break-all">{failure.shrunk.email}</td>
+                      <td className="py-1 pr-4 font-mono text-xs text-slate-500 break-all">{failure.original.email}</td>
+                      <td className="py-1 pr-4 text-xs text-slate-600">{failure.shrunk.shape.mutation?.kind ?? '—'}</td>
+                      <td className="py-1 text-xs text-slate-700">{failure.shrunk.expected ? 'valid' : 'invalid'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Validation Policy */}
+      <div className="bg-white rounded-xl shadow-lg p-8 mt-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-2xl font-bold text-slate-800">Validation Policy</h2>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setPolicy(DEFAULT_EMAIL_POLICY)}
+              className="px-6 py-3 rounded-lg font-semibold bg-slate-100 text-slate-700 hover:bg-slate-200 transition-colors"
+            >
+              Reset
+            </button>
+            <button
+              onClick={() => downloadText('email-policy.json', `${policyJson}\n`, 'application/json')}
+              disabled={!compiledPolicy.validate}
+              className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 disabled:bg-slate-300 text-white px-6 py-3 rounded-lg font-semibold transition-colors"
+            >
+              <Download size={20} />
+              Export JSON
+            </button>
+          </div>
+        </div>
+        <p className="text-slate-600 mb-4">
+          Build a practical-mode policy for a product, try it on addresses, and export it for{' '}
+          <code className="bg-slate-100 px-2 py-1 rounded text-sm">compileEmailPolicy</code>.
+        </p>
+
+        <div className="grid grid-cols-2 gap-6">
+          <div className="space-y-4 text-sm text-slate-700">
+            <div>
+              <div className="font-semibold mb-1">Local part</div>
+              <label className="flex items-center gap-2 mb-2">
+                <input
+                  type="checkbox"
+                  checked={policy.unicodeLocal}
+                  onChange={() => setPolicy({ ...policy, unicodeLocal: !policy.unicodeLocal })}
+                />
+                Letters and digits in any script (otherwise ASCII only)
+              </label>
+              <div className="flex flex-wrap gap-1">
+                {Array.from(POLICY_LOCAL_SYMBOLS).map(symbol => {
+                  const allowed = policy.localSymbols.includes(symbol);
+                  return (
+                    <button
+                      key={symbol}
+                      onClick={() => setPolicy({
+                        ...policy,
+                        localSymbols: allowed
+                          ? policy.localSymbols.replace(symbol, '')
+                          : Array.from(POLICY_LOCAL_SYMBOLS).filter(ch => ch === symbol || policy.localSymbols.includes(ch)).join(''),
+                      })}
+                      aria-pressed={allowed}
+                      className={`w-8 h-8 rounded font-mono ${allowed ? 'bg-blue-600 text-white' : 'bg-slate-100 text-slate-500'}`}
+                    >
+                      {symbol}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+            <div className="flex gap-4">
+              <label>
+                Min TLD length{' '}
+                <input
+                  type="number"
+                  min={1}
+                  max={63}
+                  value={policy.minTldLength}
+                  onChange={(e) => setPolicy({ ...policy, minTldLength: Number(e.target.value) })}
+                  className="w-16 px-2 py-1 border border-slate-300 rounded"
+                />
+              </label>
+              <label>
+                Max TLD length{' '}
+                <input
+                  type="number"
+                  min={1}
+                  max={63}
+                  value={policy.maxTldLength}
+                  onChange={(e) => setPolicy({ ...policy, maxTldLength: Number(e.target.value) })}
+                  className="w-16 px-2 py-1 border border-slate-300 rounded"
+                />
+              </label>
+              <label>
+                Max subdomain depth{' '}
+                <input
+                  type="number"
+                  min={0}
+                  value={policy.maxSubdomainDepth ?? ''}
+                  placeholder="any"
+                  onChange={(e) => setPolicy({ ...policy, maxSubdomainDepth: e.target.value === '' ? null : Number(e.target.value) })}
+                  className="w-16 px-2 py-1 border border-slate-300 rounded"
+                />
+              </label>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <label>
+                <div className="font-semibold mb-1">Allowed domains</div>
+                <textarea
+                  value={policy.allowedDomains.join('\n')}
+                  onChange={(e) => setPolicy({ ...policy, allowedDomains: e.target.value.split('\n') })}
+                  placeholder="any domain"
+                  className="w-full h-24 p-2 border border-slate-300 rounded font-mono text-xs"
+                />
+              </label>
+              <label>
+                <div className="font-semibold mb-1">Blocked domains</div>
+                <textarea
+                  value={policy.blockedDomains.join('\n')}
+                  onChange={(e) => setPolicy({ ...policy, blockedDomains: e.target.value.split('\n') })}
+                  placeholder="none"
+                  className="w-full h-24 p-2 border border-slate-300 rounded font-mono text-xs"
+                />
+              </label>
+            </div>
+            {compiledPolicy.error && <div className="text-red-700">{compiledPolicy.error}</div>}
+          </div>
+
+          <div>
+            <pre className="text-xs font-mono bg-slate-50 border border-slate-200 rounded p-3 mb-4 overflow-x-auto">{policyJson}</pre>
+            <textarea
+              value={policyInput}
+              onChange={(e) => setPolicyInput(e.target.value)}
+              placeholder="Addresses to try, one per line"
+              className="w-full h-24 p-2 border border-slate-300 rounded font-mono text-sm mb-2"
+            />
+            {compiledPolicy.validate && (
+              <div className="space-y-1">
+                {policyInput.split('\n').map(line => line.trim()).filter(Boolean).map((email, idx) => {
+                  const result = compiledPolicy.validate(email);
+                  return (
+                    <div key={idx} className="flex items-start gap-2 text-sm">
+                      {result.valid ? <CheckCircle className="text-green-600 shrink-0" size={16} /> : <XCircle className="text-red-600 shrink-0" size={16} />}
+                      <span className="font-mono text-slate-800 break-all">{email}</span>
+                      {result.reason && <span className="text-xs text-slate-500">{result.reason}</span>}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Bulk Validation */}
+      <div className="bg-white rounded-xl shadow-lg p-8 mt-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-2xl font-bold text-slate-800">Bulk Validation</h2>
+          <label className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-6 py-3 rounded-lg font-semibold transition-colors cursor-pointer">
+            <Upload size={20} />
+            Choose CSV or text file
+            <input
+              type="file"
+              accept=".csv,.txt,text/csv,text/plain"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) runBulk(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+        </div>
+        <p className="text-slate-600 mb-4">
+          One address per line, or a CSV with an <code className="bg-slate-100 px-2 py-1 rounded text-sm">email</code> column.
+          Uses the current mode{checkSuffix ? ' and public suffix check' : ''}.
+        </p>
+        {bulkError && <div className="text-sm text-red-700 mb-4">{bulkError}</div>}
+
+        {bulkProgress && bulkFile && (
+          <div>
+            <div className="flex items-center justify-between text-sm text-slate-600 mb-1">
+              <span className="font-mono">{bulkFile.name}</span>
+              <span>
+                {bulkProgress.processed.toLocaleString()} / {bulkProgress.total.toLocaleString()}
+                {bulkResult?.cancelled && ' (cancelled)'}
+              </span>
+            </div>
+            <div className="w-full h-3 bg-slate-100 rounded-full overflow-hidden mb-4">
+              <div
+                className="h-full bg-blue-600 transition-all"
+                style={{ width: `${bulkProgress.total ? (bulkProgress.processed / bulkProgress.total) * 100 : 100}%` }}
+              />
+            </div>
+
+            <div className="flex items-center gap-3 mb-4">
+              <span className="px-3 py-1 rounded-full text-sm font-semibold bg-green-100 text-green-800">
+                {bulkProgress.valid.toLocaleString()} valid
+              </span>
+              <span className="px-3 py-1 rounded-full text-sm font-semibold bg-red-100 text-red-800">
+                {bulkProgress.invalid.toLocaleString()} invalid
+              </span>
+              {!bulkResult && (
+                <button
+                  onClick={() => bulkAbort.current?.abort()}
+                  className="px-3 py-1 rounded-lg text-sm font-semibold bg-slate-100 text-slate-700 hover:bg-slate-200"
+                >
+                  Cancel
+                </button>
+              )}
+              {bulkResult && (
+                <>
+                  <button
+                    onClick={() => downloadBulkRows(bulkResult.validRows, 'valid')}
+                    className="flex items-center gap-1 px-3 py-1 rounded-lg text-sm font-semibold bg-slate-100 text-slate-700 hover:bg-slate-200"
+                  >
+                    <Download size={14} /> Valid rows
+                  </button>
+                  <button
+                    onClick={() => downloadBulkRows(bulkResult.invalidRows, 'invalid')}
+                    className="flex items-center gap-1 px-3 py-1 rounded-lg text-sm font-semibold bg-slate-100 text-slate-700 hover:bg-slate-200"
+                  >
+                    <Download size={14} /> Invalid rows
+                  </button>
+                </>
+              )}
+            </div>
+
+            {bulkProgress.invalid > 0 && (
+              <table className="text-sm">
+                <thead>
+                  <tr className="text-left text-slate-500">
+                    <th className="pr-6 font-semibold">Rejection reason</th>
+                    <th className="font-semibold text-right">Count</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {Object.entries(bulkProgress.byCode)
+                    .sort(([, a], [, b]) => (b ?? 0) - (a ?? 0))
+                    .map(([code, count]) => (
+                      <tr key={code}>
+                        <td className="pr-6 font-mono text-slate-700">{code}</td>
+                        <td className="text-right text-slate-800">{(count ?? 0).toLocaleString()}</td>
+                      </tr>
+                    ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
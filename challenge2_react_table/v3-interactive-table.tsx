@@ -10,7 +10,7 @@ type Employee = {
 };
 
 type SortDirection = 'asc' | 'desc' | null;
-type SortKey = keyof Employee;
+type SortKey = string; // a ColumnDef key
 
 type SortState = {
   key: SortKey;
@@ -18,6 +18,31 @@ type SortState = {
   priority: number;
 }[];
 
+type CellValue = string | number | null | undefined;
+type ColumnType = 'text' | 'number' | 'date';
+
+// Per-column filter; an empty value, empty selection or open range matches everything
+export type ColumnFilter =
+  | { kind: 'text'; op: 'contains' | 'equals' | 'regex'; value: string }
+  | { kind: 'set'; values: string[] }
+  | { kind: 'range'; min: number | null; max: number | null }
+  | { kind: 'dateRange'; from: string; to: string }; // YYYY-MM-DD, inclusive
+
+type ColumnFilters = Record<SortKey, ColumnFilter>;
+
+// Column definition for DataTable and the filter/sort helpers
+export type ColumnDef<T> = {
+  key: SortKey;
+  header: string;
+  width?: string;
+  accessor: (row: T) => CellValue; // value used for filtering and default sorting
+  cell?: (row: T) => React.ReactNode; // defaults to the accessor value
+  type?: ColumnType; // how accessor values are compared, default 'text'
+  compare?: (a: T, b: T) => number; // ascending order for rows with non-empty values; overrides type
+  filterable?: boolean; // searched by the filter box, default true
+  filter?: ColumnFilter['kind']; // per-column filter control, none when omitted
+};
+
 type TestResult = {
   name: string;
   passed: boolean;
@@ -32,44 +57,473 @@ type E2EStep = {
 };
 
 // Pure helper functions
-function filterRows(rows: Employee[], query: string, columns: SortKey[]): Employee[] {
-  if (!query.trim()) return rows;
-  const lowerQuery = query.toLowerCase();
-  return rows.filter(row =>
-    columns.some(col => String(row[col]).toLowerCase().includes(lowerQuery))
-  );
+
+// Rows matching a search query (see parseQuery); a query with a syntax error filters nothing,
+// so the table passes the last valid query instead
+export function filterRows<T>(rows: T[], query: string, columns: ColumnDef<T>[]): T[] {
+  const { ast } = parseQuery(query, columns);
+  if (!ast) return rows;
+  return rows.filter(row => matchesQuery(row, ast, columns));
 }
 
-function sortRows(rows: Employee[], sortState: SortState): Employee[] {
-  if (sortState.length === 0) return rows;
-  
-  return [...rows].sort((a, b) => {
-    for (const { key, direction } of sortState) {
-      if (!direction) continue;
-      
-      let valA = a[key];
-      let valB = b[key];
-      
-      if (typeof valA === 'string') valA = valA.toLowerCase();
-      if (typeof valB === 'string') valB = valB.toLowerCase();
-      
-      let cmp = 0;
-      if (valA < valB) cmp = -1;
-      else if (valA > valB) cmp = 1;
-      
-      if (cmp !== 0) {
-        return direction === 'asc' ? cmp : -cmp;
+export function isFilterActive(filter: ColumnFilter | undefined): filter is ColumnFilter {
+  switch (filter?.kind) {
+    case 'text': return filter.value.trim() !== '';
+    case 'set': return filter.values.length > 0;
+    case 'range': return filter.min !== null || filter.max !== null;
+    case 'dateRange': return filter.from !== '' || filter.to !== '';
+    default: return false;
+  }
+}
+
+// Error message for a regex filter that does not compile, null when it does
+export function regexFilterError(pattern: string): string | null {
+  try {
+    new RegExp(pattern, 'i');
+    return null;
+  } catch (e) {
+    return (e as Error).message;
+  }
+}
+
+function matchesFilter(value: CellValue, filter: ColumnFilter): boolean {
+  if (value == null || String(value).trim() === '') return false;
+  const text = String(value);
+  switch (filter.kind) {
+    case 'text': {
+      if (filter.op === 'regex') return new RegExp(filter.value, 'i').test(text);
+      const needle = filter.value.trim().toLowerCase();
+      return filter.op === 'equals' ? text.trim().toLowerCase() === needle : text.toLowerCase().includes(needle);
+    }
+    case 'set':
+      return filter.values.includes(text);
+    case 'range': {
+      const num = Number(value);
+      return (filter.min === null || num >= filter.min) && (filter.max === null || num <= filter.max);
+    }
+    case 'dateRange': {
+      const time = Date.parse(text);
+      if (Number.isNaN(time)) return false;
+      return (!filter.from || time >= Date.parse(filter.from)) && (!filter.to || time <= Date.parse(filter.to));
+    }
+  }
+}
+
+/**
+ * Keeps rows that pass every active column filter (AND). Cells that are empty never
+ * pass an active filter; a regex that does not compile is skipped.
+ */
+export function applyColumnFilters<T>(rows: T[], filters: ColumnFilters, columns: ColumnDef<T>[]): T[] {
+  const active = columns.flatMap(col => {
+    const filter = filters[col.key];
+    if (!isFilterActive(filter)) return [];
+    if (filter.kind === 'text' && filter.op === 'regex' && regexFilterError(filter.value)) return [];
+    return [{ col, filter }];
+  });
+  if (active.length === 0) return rows;
+  return rows.filter(row => active.every(({ col, filter }) => matchesFilter(col.accessor(row), filter)));
+}
+
+function emptyFilter(kind: ColumnFilter['kind']): ColumnFilter {
+  switch (kind) {
+    case 'text': return { kind, op: 'contains', value: '' };
+    case 'set': return { kind, values: [] };
+    case 'range': return { kind, min: null, max: null };
+    case 'dateRange': return { kind, from: '', to: '' };
+  }
+}
+
+// Natural, locale-aware order: "Employee 2" < "Employee 10", "Zoë" next to "Zoe"
+const collator = new Intl.Collator(undefined, { numeric: true });
+
+// Comparable form of a cell, or null when it is empty or does not parse as the column type
+function sortValue(value: CellValue, type: ColumnType): string | number | null {
+  if (value == null || String(value).trim() === '') return null;
+  if (type === 'number') {
+    const num = typeof value === 'number' ? value : Number(value.replace(/[$,\s]/g, ''));
+    return Number.isFinite(num) ? num : null;
+  }
+  if (type === 'date') {
+    const time = Date.parse(String(value));
+    return Number.isNaN(time) ? null : time;
+  }
+  return String(value).trim();
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+// Whether a query value parses as the column type. Date.parse rolls impossible days over
+// (2022-02-30 becomes March 2), so a YYYY-MM-DD value must also name a real day.
+function isQueryValue(value: string, type: ColumnType): boolean {
+  const parsed = sortValue(value, type);
+  if (parsed === null) return false;
+  return type !== 'date' || !ISO_DATE.test(value) || new Date(parsed).toISOString().slice(0, 10) === value;
+}
+
+function compareValues(valA: string | number, valB: string | number): number {
+  if (typeof valA === 'number' && typeof valB === 'number') return valA - valB;
+  return collator.compare(String(valA), String(valB));
+}
+
+/**
+ * Sorts by each active key in priority order. Empty cells go last in either direction,
+ * and rows that tie on every key keep their original order.
+ */
+export function sortRows<T>(rows: T[], sortState: SortState, columns: ColumnDef<T>[]): T[] {
+  const keys = sortState.flatMap(({ key, direction }) => {
+    const col = columns.find(c => c.key === key);
+    return col && direction ? [{ col, sign: direction === 'asc' ? 1 : -1 }] : [];
+  });
+  if (keys.length === 0) return rows;
+
+  const decorated = rows.map((row, index) => ({
+    row,
+    index,
+    values: keys.map(({ col }) => sortValue(col.accessor(row), col.type ?? 'text')),
+  }));
+
+  decorated.sort((a, b) => {
+    for (let k = 0; k < keys.length; k++) {
+      const valA = a.values[k];
+      const valB = b.values[k];
+      if (valA === null || valB === null) {
+        if (valA !== valB) return valA === null ? 1 : -1;
+        continue;
       }
+      const { col, sign } = keys[k];
+      const cmp = col.compare ? col.compare(a.row, b.row) : compareValues(valA, valB);
+      if (cmp !== 0) return cmp * sign;
     }
-    return 0;
+    return a.index - b.index;
   });
+  return decorated.map(entry => entry.row);
+}
+
+// Non-empty values of a column in natural order, e.g. the choices for a 'set' filter
+export function distinctValues<T>(rows: T[], column: ColumnDef<T>): string[] {
+  const values = new Set(rows.map(row => String(column.accessor(row) ?? '').trim()).filter(Boolean));
+  return Array.from(values).sort(collator.compare);
+}
+
+function renumberSorts(sortState: SortState): SortState {
+  return sortState.map((s, idx) => ({ ...s, priority: idx + 1 }));
 }
 
-function paginateRows(rows: Employee[], page: number, pageSize: number): Employee[] {
+// Plain click sorts by this column alone, cycling asc -> desc -> off only when it is already
+// the sole sort. Shift-click adds it as the next key, or cycles it in place if already sorted.
+export function nextSortState(prev: SortState, key: SortKey, additive: boolean): SortState {
+  const existing = prev.find(s => s.key === key);
+  const direction: SortDirection = !existing?.direction ? 'asc' : existing.direction === 'asc' ? 'desc' : null;
+  let newState: SortState;
+
+  if (additive) {
+    newState = existing
+      ? prev.map(s => s.key === key ? { ...s, direction } : s)
+      : [...prev, { key, direction, priority: 0 }];
+  } else {
+    newState = [{ key, direction: existing && prev.length === 1 ? direction : 'asc', priority: 1 }];
+  }
+
+  return renumberSorts(newState.filter(s => s.direction));
+}
+
+export function moveSort(prev: SortState, from: number, to: number): SortState {
+  const next = [...prev];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return renumberSorts(next);
+}
+
+export function removeSort(prev: SortState, key: SortKey): SortState {
+  return renumberSorts(prev.filter(s => s.key !== key));
+}
+
+export function paginateRows<T>(rows: T[], page: number, pageSize: number): T[] {
   const start = (page - 1) * pageSize;
   return rows.slice(start, start + pageSize);
 }
 
+// Query language: `department:Engineering salary:>100000 city:(Seattle OR Austin) -name:chen`.
+// Terms are ANDed; OR, NOT/-, parentheses, "quoted phrases", comparisons (> >= < <= =) and
+// ranges (field:90000..120000) are supported. A bare term searches every filterable column.
+type QueryOp = 'match' | '=' | '>' | '>=' | '<' | '<=' | 'range';
+
+export type QueryNode =
+  | { kind: 'and' | 'or'; children: QueryNode[] }
+  | { kind: 'not'; child: QueryNode }
+  | { kind: 'term'; field: SortKey | null; op: QueryOp; value: string; to?: string };
+
+export type QueryError = { message: string; start: number; end: number };
+
+export type QueryParseResult = { ast: QueryNode | null; error: QueryError | null };
+
+type QueryToken =
+  | { kind: '(' | ')' | '-'; start: number; end: number }
+  | { kind: 'word'; text: string; quoted: boolean; start: number; end: number };
+
+class QuerySyntaxError extends Error {
+  constructor(message: string, public start: number, public end: number) {
+    super(message);
+  }
+}
+
+function lexQuery(text: string): QueryToken[] {
+  const tokens: QueryToken[] = [];
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === '(' || ch === ')') {
+      tokens.push({ kind: ch, start: i, end: i + 1 });
+      i++;
+    } else if (ch === '-' && (i === 0 || /[\s(]/.test(text[i - 1])) && i + 1 < text.length && !/\s/.test(text[i + 1])) {
+      tokens.push({ kind: '-', start: i, end: i + 1 });
+      i++;
+    } else if (ch === '"') {
+      let value = '';
+      let j = i + 1;
+      for (; j < text.length && text[j] !== '"'; j++) {
+        if (text[j] === '\\' && j + 1 < text.length) j++;
+        value += text[j];
+      }
+      if (j >= text.length) throw new QuerySyntaxError('Missing closing quote', i, text.length);
+      tokens.push({ kind: 'word', text: value, quoted: true, start: i, end: j + 1 });
+      i = j + 1;
+    } else {
+      const word = text.slice(i).match(/^[^\s()"]+/)![0];
+      tokens.push({ kind: 'word', text: word, quoted: false, start: i, end: i + word.length });
+      i += word.length;
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Parses a search query against the given columns. Returns the syntax tree, or the first
+ * syntax error with the character span it refers to; an empty query gives neither.
+ */
+export function parseQuery<T>(text: string, columns: ColumnDef<T>[]): QueryParseResult {
+  let tokens: QueryToken[];
+  let pos = 0;
+  const peek = (): QueryToken | undefined => tokens[pos];
+  const isKeyword = (token: QueryToken | undefined, keyword: string) => token?.kind === 'word' && !token.quoted && token.text === keyword;
+  const fail = (message: string, start: number, end: number): never => {
+    throw new QuerySyntaxError(message, start, end);
+  };
+  const endOfGroup = () => !peek() || peek()!.kind === ')' || isKeyword(peek(), 'OR') || isKeyword(peek(), 'AND');
+
+  const term = (col: ColumnDef<T> | null, prefix: string, value: string, quoted: boolean, start: number, end: number): QueryNode => {
+    const match = quoted ? null : value.match(/^(>=|<=|>|<|=)?(.*)$/)!;
+    const op = (prefix || match?.[1] || 'match') as QueryOp;
+    let text = match ? match[2] : value;
+    let to: string | undefined;
+    if (op === 'match' && !quoted && text.includes('..')) {
+      [text, to] = text.split('..', 2);
+      if (!text || !to) fail(`Range "${value}" needs both ends, e.g. 90000..120000`, start, end);
+    }
+    if (!text) fail(`Missing value after "${value}"`, start, end);
+    if (!col && !quoted && value === '-') fail('Nothing to exclude after "-"', start, end);
+    if (!col) {
+      if (op !== 'match' || to !== undefined) fail('Comparisons need a field, e.g. salary:>100000', start, end);
+      return { kind: 'term', field: null, op: 'match', value: text };
+    }
+
+    const type = col.type ?? 'text';
+    // Bare dates match as text (startDate:2022), unless they are a full YYYY-MM-DD
+    const checked = type === 'number' || (type === 'date' && (op !== 'match' || to !== undefined || ISO_DATE.test(text)));
+    for (const bound of to === undefined ? [text] : [text, to]) {
+      if (checked && !isQueryValue(bound, type)) fail(`${col.key} expects a ${type}, got "${bound}"`, start, end);
+    }
+    if (checked && to !== undefined && sortValue(text, type)! > sortValue(to, type)!) {
+      fail(`Range "${value}" is reversed; write the smaller end first, e.g. ${to}..${text}`, start, end);
+    }
+    return to === undefined
+      ? { kind: 'term', field: col.key, op, value: text }
+      : { kind: 'term', field: col.key, op: 'range', value: text, to };
+  };
+
+  const parseOr = (field: ColumnDef<T> | null): QueryNode => {
+    const children = [parseAnd(field)];
+    while (isKeyword(peek(), 'OR')) {
+      const token = tokens[pos++];
+      if (endOfGroup()) fail('OR needs a term on both sides', token.start, token.end);
+      children.push(parseAnd(field));
+    }
+    return children.length === 1 ? children[0] : { kind: 'or', children };
+  };
+
+  const parseAnd = (field: ColumnDef<T> | null): QueryNode => {
+    const children: QueryNode[] = [];
+    while (peek() && peek()!.kind !== ')' && !isKeyword(peek(), 'OR')) {
+      if (isKeyword(peek(), 'AND')) {
+        const token = tokens[pos++];
+        if (children.length === 0 || endOfGroup()) fail('AND needs a term on both sides', token.start, token.end);
+        continue;
+      }
+      children.push(parseUnary(field));
+    }
+    if (children.length === 0) {
+      const token = peek();
+      if (isKeyword(token, 'OR')) fail('OR needs a term on both sides', token!.start, token!.end);
+      fail('Expected a search term', token?.start ?? text.length, token?.end ?? text.length);
+    }
+    return children.length === 1 ? children[0] : { kind: 'and', children };
+  };
+
+  const parseUnary = (field: ColumnDef<T> | null): QueryNode => {
+    const token = peek()!;
+    if (token.kind === '-' || isKeyword(token, 'NOT')) {
+      pos++;
+      if (endOfGroup()) fail(`Nothing to exclude after "${token.kind === '-' ? '-' : 'NOT'}"`, token.start, token.end);
+      return { kind: 'not', child: parseUnary(field) };
+    }
+    return parsePrimary(field);
+  };
+
+  const parseGroup = (open: QueryToken, field: ColumnDef<T> | null): QueryNode => {
+    if (peek()?.kind === ')') fail('Empty parentheses', open.start, peek()!.end);
+    const node = parseOr(field);
+    if (peek()?.kind !== ')') fail('Missing ")" to close this "("', open.start, open.end);
+    pos++;
+    return node;
+  };
+
+  const parsePrimary = (field: ColumnDef<T> | null): QueryNode => {
+    const token = tokens[pos++];
+    if (token.kind !== 'word') {
+      return token.kind === '(' ? parseGroup(token, field) : fail(`Unexpected "${token.kind}"`, token.start, token.end);
+    }
+
+    const colon = token.quoted ? -1 : token.text.indexOf(':');
+    const name = token.text.slice(0, Math.max(colon, 0));
+    if (colon <= 0 || !/^[A-Za-z_]\w*$/.test(name)) {
+      return term(field, '', token.text, token.quoted, token.start, token.end);
+    }
+    if (field) fail(`Field "${name}" cannot be used inside ${field.key}:( )`, token.start, token.start + colon);
+    const col = columns.find(c => c.key.toLowerCase() === name.toLowerCase());
+    if (!col) fail(`Unknown field "${name}". Fields: ${columns.map(c => c.key).join(', ')}`, token.start, token.start + colon);
+
+    const rest = token.text.slice(colon + 1);
+    const next = peek();
+    const adjacent = next && next.start === token.end ? next : undefined;
+    if (/^(>=|<=|>|<|=)?$/.test(rest) && adjacent?.kind === 'word' && adjacent.quoted) {
+      pos++;
+      return term(col!, rest, adjacent.text, true, token.start, adjacent.end);
+    }
+    if (rest === '' && adjacent?.kind === '(') {
+      pos++;
+      return parseGroup(adjacent, col!);
+    }
+    if (rest === '') fail(`Missing value after "${token.text}"`, token.start, token.end);
+    return term(col!, '', rest, false, token.start, token.end);
+  };
+
+  try {
+    tokens = lexQuery(text);
+    if (tokens.length === 0) return { ast: null, error: null };
+    const ast = parseOr(null);
+    if (pos < tokens.length) fail('Unexpected ")"', tokens[pos].start, tokens[pos].end);
+    return { ast, error: null };
+  } catch (e) {
+    if (!(e instanceof QuerySyntaxError)) throw e;
+    return { ast: null, error: { message: e.message, start: e.start, end: e.end } };
+  }
+}
+
+function matchesTerm(value: CellValue, term: QueryNode & { kind: 'term' }, type: ColumnType): boolean {
+  const cell = sortValue(value, type);
+  if (cell === null) return false;
+  if (term.op === 'match' && type !== 'number') return String(value).toLowerCase().includes(term.value.toLowerCase());
+  if ((term.op === 'match' || term.op === '=') && type === 'text') return String(value).trim().toLowerCase() === term.value.toLowerCase();
+
+  const cmp = compareValues(cell, sortValue(term.value, type)!);
+  switch (term.op) {
+    case 'match':
+    case '=': return cmp === 0;
+    case '>': return cmp > 0;
+    case '>=': return cmp >= 0;
+    case '<': return cmp < 0;
+    case '<=': return cmp <= 0;
+    case 'range': return cmp >= 0 && compareValues(cell, sortValue(term.to!, type)!) <= 0;
+  }
+}
+
+export function matchesQuery<T>(row: T, node: QueryNode, columns: ColumnDef<T>[]): boolean {
+  switch (node.kind) {
+    case 'and': return node.children.every(child => matchesQuery(row, child, columns));
+    case 'or': return node.children.some(child => matchesQuery(row, child, columns));
+    case 'not': return !matchesQuery(row, node.child, columns);
+    case 'term': {
+      if (node.field === null) {
+        const needle = node.value.toLowerCase();
+        return columns.some(col => col.filterable !== false && String(col.accessor(row) ?? '').toLowerCase().includes(needle));
+      }
+      const col = columns.find(c => c.key === node.field)!;
+      return matchesTerm(col.accessor(row), node, col.type ?? 'text');
+    }
+  }
+}
+
+export type QuerySuggestion = { label: string; insert: string; detail: string };
+
+export type QueryCompletions = { from: number; to: number; suggestions: QuerySuggestion[] };
+
+const quoteQueryValue = (value: string) => (/[\s()"]/.test(value) || value === 'OR' || value === 'AND' || value === 'NOT' ? `"${value.replace(/["\\]/g, '\\$&')}"` : value);
+
+/**
+ * Suggestions for the word at the cursor: field names, or known values of the field being
+ * typed (`city:Se`, `city:(Seattle OR Au`). Accepting one replaces text[from, to).
+ */
+export function queryCompletions<T>(text: string, cursor: number, rows: T[], columns: ColumnDef<T>[], limit = 8): QueryCompletions {
+  const before = text.slice(0, cursor);
+  const openQuote = (before.match(/"/g) ?? []).length % 2 === 1 ? before.lastIndexOf('"') : -1;
+  let from = (openQuote >= 0 ? before.slice(0, openQuote) : before).search(/[^\s()]*$/);
+  const to = cursor + text.slice(cursor).match(/^[^\s()]*/)![0].length;
+  if (text[from] === '-') from++;
+  const word = text.slice(from, cursor);
+
+  // The field whose parenthesised values the cursor is inside, if any
+  const groups: (string | null)[] = [];
+  let inQuote = false;
+  for (let i = 0; i < from; i++) {
+    if (text[i] === '"') inQuote = !inQuote;
+    else if (!inQuote && text[i] === '(') groups.push(text.slice(0, i).match(/([A-Za-z_]\w*):$/)?.[1] ?? null);
+    else if (!inQuote && text[i] === ')') groups.pop();
+  }
+
+  const colon = word.indexOf(':');
+  const fieldName = colon > 0 ? word.slice(0, colon) : groups[groups.length - 1];
+  if (fieldName) {
+    const col = columns.find(c => c.key.toLowerCase() === fieldName.toLowerCase());
+    if (!col) return { from, to, suggestions: [] };
+    const [, op, prefix] = word.slice(colon + 1).match(/^(>=|<=|>|<|=)?"?(.*)$/)!;
+    const lead = colon > 0 ? `${col.key}:${op ?? ''}` : op ?? '';
+    const suggestions = distinctValues(rows, col)
+      .filter(value => value.toLowerCase().startsWith(prefix.toLowerCase()))
+      .slice(0, limit)
+      .map(value => ({ label: value, insert: lead + quoteQueryValue(value), detail: col.header }))
+      .filter(suggestion => suggestion.insert !== word);
+    return { from, to, suggestions };
+  }
+
+  if (!word) return { from, to, suggestions: [] };
+  const suggestions = columns
+    .filter(col => col.key.toLowerCase().startsWith(word.toLowerCase()))
+    .slice(0, limit)
+    .map(col => ({ label: `${col.key}:`, insert: `${col.key}:`, detail: col.header }));
+  return { from, to, suggestions };
+}
+
+export const EMPLOYEE_COLUMNS: ColumnDef<Employee>[] = [
+  { key: 'id', header: 'ID', width: '80px', accessor: row => row.id },
+  { key: 'name', header: 'Name', width: '150px', accessor: row => row.name, filter: 'text' },
+  { key: 'department', header: 'Department', width: '120px', accessor: row => row.department, filter: 'set' },
+  { key: 'city', header: 'City', width: '100px', accessor: row => row.city, filter: 'set' },
+  { key: 'salary', header: 'Salary', width: '100px', accessor: row => row.salary, type: 'number', filter: 'range', cell: row => `$${row.salary.toLocaleString()}` },
+  { key: 'startDate', header: 'Start Date', width: '110px', accessor: row => row.startDate, type: 'date', filter: 'dateRange' },
+];
+
 // Generate sample data
 function generateSampleData(): Employee[] {
   const employees: Employee[] = [];
@@ -123,22 +577,25 @@ function generateSampleData(): Employee[] {
   return employees;
 }
 
+const FILTER_INPUT_STYLE: React.CSSProperties = {
+  padding: '6px 8px',
+  border: '1px solid #d1d5db',
+  borderRadius: '4px',
+  fontSize: '13px',
+  minWidth: '0'
+};
+
 // Table Component
-const DataTable: React.FC<{
-  data: Employee[];
+type DataTableProps<T> = {
+  data: T[];
+  columns: ColumnDef<T>[];
+  rowKey: (row: T) => string;
   sortState: SortState;
-  onSort: (key: SortKey) => void;
+  onSort: (key: SortKey, additive: boolean) => void;
   highlightRow?: number;
-}> = ({ data, sortState, onSort, highlightRow }) => {
-  const columns: { key: SortKey; label: string; width: string }[] = [
-    { key: 'id', label: 'ID', width: '80px' },
-    { key: 'name', label: 'Name', width: '150px' },
-    { key: 'department', label: 'Department', width: '120px' },
-    { key: 'city', label: 'City', width: '100px' },
-    { key: 'salary', label: 'Salary', width: '100px' },
-    { key: 'startDate', label: 'Start Date', width: '110px' },
-  ];
+};
 
+export function DataTable<T>({ data, columns, rowKey, sortState, onSort, highlightRow }: DataTableProps<T>) {
   const getSortIcon = (key: SortKey) => {
     const sort = sortState.find(s => s.key === key);
     if (!sort || !sort.direction) return ' ○';
@@ -160,7 +617,8 @@ const DataTable: React.FC<{
             {columns.map(col => (
               <th
                 key={col.key}
-                onClick={() => onSort(col.key)}
+                onClick={(e) => onSort(col.key, e.shiftKey)}
+                title="Click to sort, shift-click to add a secondary sort"
                 style={{
                   width: col.width,
                   padding: '12px 8px',
@@ -171,7 +629,7 @@ const DataTable: React.FC<{
                   fontWeight: 600,
                 }}
               >
-                {col.label}{getSortIcon(col.key)}
+                {col.header}{getSortIcon(col.key)}
               </th>
             ))}
           </tr>
@@ -179,26 +637,23 @@ const DataTable: React.FC<{
         <tbody>
           {data.length === 0 ? (
             <tr>
-              <td colSpan={6} style={{ padding: '40px', textAlign: 'center', color: '#6b7280' }}>
+              <td colSpan={columns.length} style={{ padding: '40px', textAlign: 'center', color: '#6b7280' }}>
                 No results found
               </td>
             </tr>
           ) : (
             data.map((row, idx) => (
               <tr 
-                key={row.id} 
+                key={rowKey(row)} 
                 style={{ 
                   borderBottom: '1px solid #e5e7eb',
                   backgroundColor: highlightRow === idx ? '#fef3c7' : 'transparent',
                   transition: 'background-color 0.3s'
                 }}
               >
-                <td style={{ padding: '10px 8px' }}>{row.id}</td>
-                <td style={{ padding: '10px 8px' }}>{row.name}</td>
-                <td style={{ padding: '10px 8px' }}>{row.department}</td>
-                <td style={{ padding: '10px 8px' }}>{row.city}</td>
-                <td style={{ padding: '10px 8px' }}>${row.salary.toLocaleString()}</td>
-                <td style={{ padding: '10px 8px' }}>{row.startDate}</td>
+                {columns.map(col => (
+                  <td key={col.key} style={{ padding: '10px 8px' }}>{col.cell ? col.cell(row) : col.accessor(row)}</td>
+                ))}
               </tr>
             ))
           )}
@@ -206,12 +661,13 @@ const DataTable: React.FC<{
       </table>
     </div>
   );
-};
+}
 
 // Main App
 export default function App() {
   const [allData, setAllData] = useState<Employee[]>([]);
   const [filterQuery, setFilterQuery] = useState('');
+  const [columnFilters, setColumnFilters] = useState<ColumnFilters>({});
   const [sortState, setSortState] = useState<SortState>([]);
   const [page, setPage] = useState(1);
   const [pageSize, setPageSize] = useState(10);
@@ -225,18 +681,39 @@ export default function App() {
   const [isRunningE2E, setIsRunningE2E] = useState(false);
   const [currentE2EStep, setCurrentE2EStep] = useState(-1);
   const [highlightRow, setHighlightRow] = useState<number | undefined>();
+  const [dragSortIndex, setDragSortIndex] = useState<number | null>(null);
+  
+  const [queryCursor, setQueryCursor] = useState(0);
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const [suggestionIndex, setSuggestionIndex] = useState(0);
   
   const tableRef = useRef<HTMLDivElement>(null);
+  const searchRef = useRef<HTMLInputElement>(null);
+
+  const queryError = useMemo(() => parseQuery(filterQuery, EMPLOYEE_COLUMNS).error, [filterQuery]);
+  // While the query has a syntax error the table keeps the last valid one, so typing city:(Seattle doesn't flash every row
+  const [appliedQuery, setAppliedQuery] = useState('');
+  if (!queryError && appliedQuery !== filterQuery) setAppliedQuery(filterQuery);
 
-  const filterableColumns: SortKey[] = ['id', 'name', 'department', 'city', 'salary', 'startDate'];
+  const completions = useMemo(
+    () => queryCompletions(filterQuery, queryCursor, allData, EMPLOYEE_COLUMNS),
+    [filterQuery, queryCursor, allData]
+  );
 
   const filteredData = useMemo(
-    () => filterRows(allData, filterQuery, filterableColumns),
-    [allData, filterQuery]
+    () => applyColumnFilters(filterRows(allData, appliedQuery, EMPLOYEE_COLUMNS), columnFilters, EMPLOYEE_COLUMNS),
+    [allData, appliedQuery, columnFilters]
   );
 
+  const setOptions = useMemo(
+    () => Object.fromEntries(EMPLOYEE_COLUMNS.filter(col => col.filter === 'set').map(col => [col.key, distinctValues(allData, col)])),
+    [allData]
+  );
+
+  const activeColumnFilters = EMPLOYEE_COLUMNS.filter(col => isFilterActive(columnFilters[col.key])).length;
+
   const sortedData = useMemo(
-    () => sortRows(filteredData, sortState),
+    () => sortRows(filteredData, sortState, EMPLOYEE_COLUMNS),
     [filteredData, sortState]
   );
 
@@ -247,34 +724,23 @@ export default function App() {
 
   const totalPages = Math.ceil(filteredData.length / pageSize);
 
-  const handleSort = (key: SortKey) => {
-    setSortState(prev => {
-      const existing = prev.find(s => s.key === key);
-      let newState: SortState;
-
-      if (!existing) {
-        newState = [...prev, { key, direction: 'asc', priority: prev.filter(s => s.direction).length + 1 }];
-      } else if (existing.direction === 'asc') {
-        newState = prev.map(s => s.key === key ? { ...s, direction: 'desc' as SortDirection } : s);
-      } else if (existing.direction === 'desc') {
-        newState = prev.filter(s => s.key !== key);
-      } else {
-        newState = prev.map(s => s.key === key ? { ...s, direction: 'asc' as SortDirection } : s);
-      }
-
-      const activeSorts = newState.filter(s => s.direction);
-      if (activeSorts.length > 2) {
-        const toRemove = activeSorts[0].key;
-        newState = newState.filter(s => s.key !== toRemove);
-      }
+  const handleSort = (key: SortKey, additive = false) => {
+    setSortState(prev => nextSortState(prev, key, additive));
+    setPage(1);
+    setLastAction(additive ? `Added sort ${key}` : `Sorted ${key}`);
+  };
 
-      let priority = 1;
-      newState = newState.map(s => s.direction ? { ...s, priority: priority++ } : s);
+  const handleMoveSort = (from: number, to: number) => {
+    if (from === to) return;
+    setSortState(prev => moveSort(prev, from, to));
+    setPage(1);
+    setLastAction(`Moved sort ${sortState[from]?.key} to priority ${to + 1}`);
+  };
 
-      return newState;
-    });
+  const handleRemoveSort = (key: SortKey) => {
+    setSortState(prev => removeSort(prev, key));
     setPage(1);
-    setLastAction(`Sorted ${key}`);
+    setLastAction(`Removed sort ${key}`);
   };
 
   const handleFilterChange = (query: string) => {
@@ -283,6 +749,151 @@ export default function App() {
     setLastAction(query ? `Filtered: "${query}"` : 'Cleared filter');
   };
 
+  const handleQueryInput = (input: HTMLInputElement) => {
+    handleFilterChange(input.value);
+    setQueryCursor(input.selectionStart ?? input.value.length);
+    setShowSuggestions(true);
+    setSuggestionIndex(0);
+  };
+
+  const acceptSuggestion = (suggestion: QuerySuggestion) => {
+    const { from, to } = completions;
+    const rest = filterQuery.slice(to);
+    const separator = suggestion.insert.endsWith(':') || /^[\s)]/.test(rest) ? '' : ' ';
+    const next = filterQuery.slice(0, from) + suggestion.insert + separator + rest;
+    const cursor = from + suggestion.insert.length + separator.length;
+    handleFilterChange(next);
+    setQueryCursor(cursor);
+    setSuggestionIndex(0);
+    setTimeout(() => {
+      searchRef.current?.focus();
+      searchRef.current?.setSelectionRange(cursor, cursor);
+    }, 0);
+  };
+
+  const handleQueryKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    const count = showSuggestions ? completions.suggestions.length : 0;
+    if (count === 0) return;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      setSuggestionIndex(i => (i + (e.key === 'ArrowDown' ? 1 : count - 1)) % count);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      acceptSuggestion(completions.suggestions[Math.min(suggestionIndex, count - 1)]);
+    } else if (e.key === 'Escape') {
+      setShowSuggestions(false);
+    }
+  };
+
+  const handleColumnFilterChange = (column: ColumnDef<Employee>, filter: ColumnFilter) => {
+    setColumnFilters(prev => ({ ...prev, [column.key]: filter }));
+    setPage(1);
+    setLastAction(isFilterActive(filter) ? `Filtered ${column.header}` : `Cleared ${column.header} filter`);
+  };
+
+  const handleClearColumnFilters = () => {
+    setColumnFilters({});
+    setPage(1);
+    setLastAction('Cleared column filters');
+  };
+
+  const renderColumnFilter = (col: ColumnDef<Employee>) => {
+    const filter = columnFilters[col.key] ?? emptyFilter(col.filter!);
+    const change = (next: ColumnFilter) => handleColumnFilterChange(col, next);
+
+    switch (filter.kind) {
+      case 'text': {
+        const regexError = filter.op === 'regex' && filter.value ? regexFilterError(filter.value) : null;
+        return (
+          <>
+            <div style={{ display: 'flex', gap: '4px' }}>
+              <select
+                value={filter.op}
+                onChange={(e) => change({ ...filter, op: e.target.value as typeof filter.op })}
+                aria-label={`${col.header} filter operator`}
+                style={FILTER_INPUT_STYLE}
+              >
+                <option value="contains">contains</option>
+                <option value="equals">equals</option>
+                <option value="regex">regex</option>
+              </select>
+              <input
+                type="text"
+                value={filter.value}
+                onChange={(e) => change({ ...filter, value: e.target.value })}
+                aria-label={`${col.header} filter value`}
+                style={{ ...FILTER_INPUT_STYLE, flex: '1' }}
+              />
+            </div>
+            {regexError && <div style={{ color: '#dc2626', fontSize: '12px', marginTop: '4px' }}>{regexError}</div>}
+          </>
+        );
+      }
+      case 'set':
+        return (
+          <div style={{ display: 'flex', gap: '4px 10px', flexWrap: 'wrap' }}>
+            {(setOptions[col.key] ?? []).map(option => (
+              <label key={option} style={{ display: 'flex', gap: '4px', alignItems: 'center', fontSize: '13px' }}>
+                <input
+                  type="checkbox"
+                  checked={filter.values.includes(option)}
+                  onChange={(e) => change({
+                    ...filter,
+                    values: e.target.checked ? [...filter.values, option] : filter.values.filter(v => v !== option)
+                  })}
+                />
+                {option}
+              </label>
+            ))}
+          </div>
+        );
+      case 'range': {
+        const bound = (text: string) => (text === '' ? null : Number(text));
+        return (
+          <div style={{ display: 'flex', gap: '4px', alignItems: 'center' }}>
+            <input
+              type="number"
+              value={filter.min ?? ''}
+              onChange={(e) => change({ ...filter, min: bound(e.target.value) })}
+              placeholder="Min"
+              aria-label={`${col.header} minimum`}
+              style={{ ...FILTER_INPUT_STYLE, width: '100%' }}
+            />
+            –
+            <input
+              type="number"
+              value={filter.max ?? ''}
+              onChange={(e) => change({ ...filter, max: bound(e.target.value) })}
+              placeholder="Max"
+              aria-label={`${col.header} maximum`}
+              style={{ ...FILTER_INPUT_STYLE, width: '100%' }}
+            />
+          </div>
+        );
+      }
+      case 'dateRange':
+        return (
+          <div style={{ display: 'flex', gap: '4px', alignItems: 'center' }}>
+            <input
+              type="date"
+              value={filter.from}
+              onChange={(e) => change({ ...filter, from: e.target.value })}
+              aria-label={`${col.header} from`}
+              style={{ ...FILTER_INPUT_STYLE, width: '100%' }}
+            />
+            –
+            <input
+              type="date"
+              value={filter.to}
+              onChange={(e) => change({ ...filter, to: e.target.value })}
+              aria-label={`${col.header} to`}
+              style={{ ...FILTER_INPUT_STYLE, width: '100%' }}
+            />
+          </div>
+        );
+    }
+  };
+
   const handlePageSizeChange = (newSize: number | 'custom') => {
     if (newSize === 'custom') {
       setIsCustomPageSize(true);
@@ -341,6 +952,7 @@ export default function App() {
     setPage(1);
     setSortState([]);
     setFilterQuery('');
+    setColumnFilters({});
     setTestResults([]);
     setE2eSteps([]);
     setLastAction('Cleared all data');
@@ -366,6 +978,7 @@ export default function App() {
     setPage(1);
     setSortState([]);
     setFilterQuery('');
+    setColumnFilters({});
     await sleep(500);
     
     const steps: E2EStep[] = [
@@ -406,8 +1019,8 @@ export default function App() {
         let error = '';
 
         // Get current state snapshot
-        const currentFilteredData = filterRows(allData, filterQuery, filterableColumns);
-        const currentSortedData = sortRows(currentFilteredData, sortState);
+        const currentFilteredData = applyColumnFilters(filterRows(allData, filterQuery, EMPLOYEE_COLUMNS), columnFilters, EMPLOYEE_COLUMNS);
+        const currentSortedData = sortRows(currentFilteredData, sortState, EMPLOYEE_COLUMNS);
         const currentPaginatedData = paginateRows(currentSortedData, page, pageSize);
         const currentTotalPages = Math.ceil(currentFilteredData.length / pageSize);
 
@@ -431,7 +1044,7 @@ export default function App() {
           case 3: // Sort salary ascending
             handleSort('salary');
             await sleep(1000);
-            const salaryAscData = paginateRows(sortRows(filterRows(allData, '', filterableColumns), [{ key: 'salary', direction: 'asc', priority: 1 }]), 1, pageSize);
+            const salaryAscData = paginateRows(sortRows(filterRows(allData, '', EMPLOYEE_COLUMNS), [{ key: 'salary', direction: 'asc', priority: 1 }], EMPLOYEE_COLUMNS), 1, pageSize);
             passed = salaryAscData[0]?.name === 'Noah Johnson' && salaryAscData[0]?.salary === 70000;
             error = !passed ? `Got ${salaryAscData[0]?.name} (${salaryAscData[0]?.salary})` : '';
             setHighlightRow(0);
@@ -440,7 +1053,7 @@ export default function App() {
           case 4: // Sort salary descending
             handleSort('salary');
             await sleep(1000);
-            const salaryDescData = paginateRows(sortRows(filterRows(allData, '', filterableColumns), [{ key: 'salary', direction: 'desc', priority: 1 }]), 1, pageSize);
+            const salaryDescData = paginateRows(sortRows(filterRows(allData, '', EMPLOYEE_COLUMNS), [{ key: 'salary', direction: 'desc', priority: 1 }], EMPLOYEE_COLUMNS), 1, pageSize);
             passed = salaryDescData[0]?.name === 'Priya Patel' && salaryDescData[0]?.salary === 135000;
             error = !passed ? `Got ${salaryDescData[0]?.name} (${salaryDescData[0]?.salary})` : '';
             setHighlightRow(0);
@@ -451,7 +1064,7 @@ export default function App() {
             await sleep(500);
             handleSort('name');
             await sleep(1000);
-            const nameSorted = sortRows(allData, [{ key: 'name', direction: 'asc', priority: 1 }]);
+            const nameSorted = sortRows(allData, [{ key: 'name', direction: 'asc', priority: 1 }], EMPLOYEE_COLUMNS);
             const lastPageNum = Math.ceil(nameSorted.length / pageSize);
             setPage(lastPageNum);
             await sleep(1000);
@@ -468,7 +1081,7 @@ export default function App() {
             await sleep(500);
             handleSort('startDate');
             await sleep(1000);
-            const dateSorted = paginateRows(sortRows(allData, [{ key: 'startDate', direction: 'asc', priority: 1 }]), 1, pageSize);
+            const dateSorted = paginateRows(sortRows(allData, [{ key: 'startDate', direction: 'asc', priority: 1 }], EMPLOYEE_COLUMNS), 1, pageSize);
             passed = dateSorted[0]?.startDate === '2019-01-01';
             error = !passed ? `Got ${dateSorted[0]?.startDate}` : '';
             setHighlightRow(0);
@@ -480,7 +1093,7 @@ export default function App() {
             await sleep(500);
             handleFilterChange('Chris Martin');
             await sleep(1000);
-            const chrisFiltered = filterRows(allData, 'Chris Martin', filterableColumns);
+            const chrisFiltered = filterRows(allData, 'Chris Martin', EMPLOYEE_COLUMNS);
             passed = chrisFiltered.length === 1;
             error = !passed ? `Got ${chrisFiltered.length} records` : '';
             setHighlightRow(0);
@@ -491,7 +1104,7 @@ export default function App() {
             await sleep(500);
             handleFilterChange('Engineering');
             await sleep(1000);
-            const engFiltered = filterRows(allData, 'Engineering', filterableColumns);
+            const engFiltered = filterRows(allData, 'Engineering', EMPLOYEE_COLUMNS);
             passed = engFiltered.length === 18;
             error = !passed ? `Got ${engFiltered.length} records` : '';
             break;
@@ -501,7 +1114,7 @@ export default function App() {
             await sleep(500);
             handleFilterChange('Seattle');
             await sleep(1000);
-            const seattleFiltered = filterRows(allData, 'Seattle', filterableColumns);
+            const seattleFiltered = filterRows(allData, 'Seattle', EMPLOYEE_COLUMNS);
             passed = seattleFiltered.length > 0 && seattleFiltered.every(e => e.city === 'Seattle');
             error = !passed ? (seattleFiltered.length === 0 ? 'No Seattle records found' : 'Not all rows show Seattle') : '';
             break;
@@ -511,7 +1124,7 @@ export default function App() {
             await sleep(500);
             handleFilterChange('Skylar');
             await sleep(1000);
-            const skylarFiltered = filterRows(allData, 'Skylar', filterableColumns);
+            const skylarFiltered = filterRows(allData, 'Skylar', EMPLOYEE_COLUMNS);
             passed = skylarFiltered.some(e => e.name === 'Skylar Stone');
             error = !passed ? 'Skylar Stone not found' : '';
             setHighlightRow(0);
@@ -567,8 +1180,8 @@ export default function App() {
             await sleep(1000);
             handleFilterChange('Sales');
             await sleep(1000);
-            const salesFiltered = filterRows(allData, 'Sales', filterableColumns);
-            const salesSorted = sortRows(salesFiltered, [{ key: 'salary', direction: 'desc', priority: 1 }]);
+            const salesFiltered = filterRows(allData, 'Sales', EMPLOYEE_COLUMNS);
+            const salesSorted = sortRows(salesFiltered, [{ key: 'salary', direction: 'desc', priority: 1 }], EMPLOYEE_COLUMNS);
             const salesPaginated = paginateRows(salesSorted, 1, 10);
             const salesHighest = salesPaginated[0];
             const allSalesMatch = salesFiltered.every(e => e.department === 'Sales');
@@ -584,7 +1197,7 @@ export default function App() {
             await sleep(500);
             handleFilterChange('e');
             await sleep(1000);
-            const eFiltered = filterRows(allData, 'e', filterableColumns);
+            const eFiltered = filterRows(allData, 'e', EMPLOYEE_COLUMNS);
             const allHaveE = eFiltered.every(e =>
               Object.values(e).some(v => String(v).toLowerCase().includes('e'))
             );
@@ -611,7 +1224,7 @@ export default function App() {
             await sleep(500);
             handleFilterChange('Zoë');
             await sleep(1000);
-            const zoeFiltered = filterRows(allData, 'Zoë', filterableColumns);
+            const zoeFiltered = filterRows(allData, 'Zoë', EMPLOYEE_COLUMNS);
             passed = zoeFiltered.some(e => e.name === 'Zoë Kravitz');
             error = !passed ? 'Zoë Kravitz not found' : '';
             setHighlightRow(0);
@@ -660,21 +1273,21 @@ export default function App() {
         error: testData[0].id !== 'E001' ? `Got ${testData[0].name}` : undefined
       });
 
-      const salarySortAsc = sortRows(testData, [{ key: 'salary', direction: 'asc', priority: 1 }]);
+      const salarySortAsc = sortRows(testData, [{ key: 'salary', direction: 'asc', priority: 1 }], EMPLOYEE_COLUMNS);
       results.push({
         name: 'Salary Asc: Noah Johnson (70000) first',
         passed: salarySortAsc[0].name === 'Noah Johnson' && salarySortAsc[0].salary === 70000,
         error: salarySortAsc[0].name !== 'Noah Johnson' ? `Got ${salarySortAsc[0].name}` : undefined
       });
 
-      const salarySortDesc = sortRows(testData, [{ key: 'salary', direction: 'desc', priority: 1 }]);
+      const salarySortDesc = sortRows(testData, [{ key: 'salary', direction: 'desc', priority: 1 }], EMPLOYEE_COLUMNS);
       results.push({
         name: 'Salary Desc: Priya Patel (135000) first',
         passed: salarySortDesc[0].name === 'Priya Patel' && salarySortDesc[0].salary === 135000,
         error: salarySortDesc[0].name !== 'Priya Patel' ? `Got ${salarySortDesc[0].name}` : undefined
       });
 
-      const nameSortAsc = sortRows(testData, [{ key: 'name', direction: 'asc', priority: 1 }]);
+      const nameSortAsc = sortRows(testData, [{ key: 'name', direction: 'asc', priority: 1 }], EMPLOYEE_COLUMNS);
       results.push({
         name: 'Name A-Z: Adrian Brooks first',
         passed: nameSortAsc[0].name === 'Adrian Brooks',
@@ -687,41 +1300,165 @@ export default function App() {
         error: nameSortAsc[nameSortAsc.length - 1].name !== 'Zoë Kravitz' ? `Got ${nameSortAsc[nameSortAsc.length - 1].name}` : undefined
       });
 
-      const dateSortAsc = sortRows(testData, [{ key: 'startDate', direction: 'asc', priority: 1 }]);
+      const dateSortAsc = sortRows(testData, [{ key: 'startDate', direction: 'asc', priority: 1 }], EMPLOYEE_COLUMNS);
       results.push({
         name: 'Date: Earliest is 2019-01-01',
         passed: dateSortAsc[0].startDate === '2019-01-01',
         error: dateSortAsc[0].startDate !== '2019-01-01' ? `Got ${dateSortAsc[0].startDate}` : undefined
       });
 
-      const chrisResult = filterRows(testData, 'Chris Martin', filterableColumns);
+      const numberedNames = sortRows(
+        ['Employee 10', 'Employee 2', 'Employee 1'].map((name, i) => ({ ...testData[0], id: `N${i}`, name })),
+        [{ key: 'name', direction: 'asc', priority: 1 }],
+        EMPLOYEE_COLUMNS
+      ).map(e => e.name);
+      results.push({
+        name: 'Name A-Z: Employee 2 before Employee 10',
+        passed: numberedNames.join() === 'Employee 1,Employee 2,Employee 10',
+        error: numberedNames.join() !== 'Employee 1,Employee 2,Employee 10' ? `Got ${numberedNames.join(', ')}` : undefined
+      });
+
+      const withEmptyDate = [{ ...testData[0], id: 'X001', startDate: '' }, ...testData];
+      const emptyLastAsc = sortRows(withEmptyDate, [{ key: 'startDate', direction: 'asc', priority: 1 }], EMPLOYEE_COLUMNS);
+      const emptyLastDesc = sortRows(withEmptyDate, [{ key: 'startDate', direction: 'desc', priority: 1 }], EMPLOYEE_COLUMNS);
+      const emptyLast = emptyLastAsc[emptyLastAsc.length - 1].id === 'X001' && emptyLastDesc[emptyLastDesc.length - 1].id === 'X001';
+      results.push({
+        name: 'Empty start date sorts last both ways',
+        passed: emptyLast,
+        error: !emptyLast ? `Last: ${emptyLastAsc[emptyLastAsc.length - 1].id} / ${emptyLastDesc[emptyLastDesc.length - 1].id}` : undefined
+      });
+
+      const deptSorted = sortRows(testData, [{ key: 'department', direction: 'asc', priority: 1 }], EMPLOYEE_COLUMNS);
+      const stableTies = deptSorted.every((e, i) =>
+        i === 0 || e.department !== deptSorted[i - 1].department || testData.indexOf(e) > testData.indexOf(deptSorted[i - 1])
+      );
+      results.push({
+        name: 'Department sort keeps ties in original order',
+        passed: stableTies,
+        error: !stableTies ? 'Tied rows were reordered' : undefined
+      });
+
+      const describeSorts = (state: SortState) => state.map(s => `${s.priority}:${s.key} ${s.direction}`).join(', ');
+      const secondaryClick = describeSorts(nextSortState(
+        [{ key: 'department', direction: 'asc', priority: 1 }, { key: 'salary', direction: 'asc', priority: 2 }], 'salary', false
+      ));
+      results.push({
+        name: 'Plain click on a secondary sort replaces the sort with asc',
+        passed: secondaryClick === '1:salary asc',
+        error: secondaryClick !== '1:salary asc' ? `Got ${secondaryClick}` : undefined
+      });
+
+      const soleClick = describeSorts(nextSortState([{ key: 'salary', direction: 'asc', priority: 1 }], 'salary', false));
+      results.push({
+        name: 'Plain click on the sole sort cycles asc -> desc',
+        passed: soleClick === '1:salary desc',
+        error: soleClick !== '1:salary desc' ? `Got ${soleClick}` : undefined
+      });
+
+      const fourKeys = (['department', 'city', 'salary', 'name'] as SortKey[]).reduce<SortState>((state, key) => nextSortState(state, key, true), []);
+      const fourKeysExpected = '1:department asc, 2:city asc, 3:salary asc, 4:name asc';
+      results.push({
+        name: 'Shift-click appends 4 sort keys in order',
+        passed: describeSorts(fourKeys) === fourKeysExpected,
+        error: describeSorts(fourKeys) !== fourKeysExpected ? `Got ${describeSorts(fourKeys)}` : undefined
+      });
+
+      const reordered = describeSorts(removeSort(moveSort(fourKeys, 3, 0), 'city'));
+      const reorderedExpected = '1:name asc, 2:department asc, 3:salary asc';
+      results.push({
+        name: 'Moving and removing sorts renumbers priorities',
+        passed: reordered === reorderedExpected,
+        error: reordered !== reorderedExpected ? `Got ${reordered}` : undefined
+      });
+
+      const chrisResult = filterRows(testData, 'Chris Martin', EMPLOYEE_COLUMNS);
       results.push({
         name: 'Search "Chris Martin" = 1 record',
         passed: chrisResult.length === 1,
         error: chrisResult.length !== 1 ? `Got ${chrisResult.length}` : undefined
       });
 
-      const engResult = filterRows(testData, 'Engineering', filterableColumns);
+      const engResult = filterRows(testData, 'Engineering', EMPLOYEE_COLUMNS);
       results.push({
         name: 'Search "Engineering" = 18 records',
         passed: engResult.length === 18,
         error: engResult.length !== 18 ? `Got ${engResult.length}` : undefined
       });
 
-      const seattleResult = filterRows(testData, 'Seattle', filterableColumns);
+      const seattleResult = filterRows(testData, 'Seattle', EMPLOYEE_COLUMNS);
       results.push({
         name: 'Search "Seattle" filters by city',
         passed: seattleResult.every(e => e.city === 'Seattle') && seattleResult.length > 0,
         error: !seattleResult.every(e => e.city === 'Seattle') ? 'Not all Seattle' : undefined
       });
 
-      const skylarResult = filterRows(testData, 'Skylar', filterableColumns);
+      const skylarResult = filterRows(testData, 'Skylar', EMPLOYEE_COLUMNS);
       results.push({
         name: 'Fuzzy match "Skylar" finds Skylar Stone',
         passed: skylarResult.some(e => e.name === 'Skylar Stone'),
         error: !skylarResult.some(e => e.name === 'Skylar Stone') ? 'Not found' : undefined
       });
 
+      const salesOver100k = applyColumnFilters(testData, {
+        department: { kind: 'set', values: ['Sales'] },
+        salary: { kind: 'range', min: 100000, max: null }
+      }, EMPLOYEE_COLUMNS);
+      const expectedSalesOver100k = testData.filter(e => e.department === 'Sales' && e.salary >= 100000).length;
+      results.push({
+        name: 'Column filters: Sales AND salary >= 100000',
+        passed: salesOver100k.length === expectedSalesOver100k && salesOver100k.length > 0,
+        error: salesOver100k.length !== expectedSalesOver100k ? `Got ${salesOver100k.length}, expected ${expectedSalesOver100k}` : undefined
+      });
+
+      const queryResult = filterRows(testData, 'department:Engineering salary:>100000 city:(Seattle OR Austin) -name:chen', EMPLOYEE_COLUMNS);
+      const expectedQuery = testData.filter(e =>
+        e.department === 'Engineering' && e.salary > 100000 && ['Seattle', 'Austin'].includes(e.city) && !e.name.toLowerCase().includes('chen')
+      );
+      results.push({
+        name: 'Query: department, salary range, city OR, -name',
+        passed: queryResult.length === expectedQuery.length && queryResult.every(e => expectedQuery.includes(e)),
+        error: queryResult.length !== expectedQuery.length ? `Got ${queryResult.length}, expected ${expectedQuery.length}` : undefined
+      });
+
+      const unclosed = parseQuery('city:(Seattle OR Austin', EMPLOYEE_COLUMNS).error;
+      results.push({
+        name: 'Query: unclosed "(" is a syntax error',
+        passed: unclosed?.start === 5,
+        error: unclosed?.start !== 5 ? `Got ${unclosed ? `${unclosed.message} at ${unclosed.start}` : 'no error'}` : undefined
+      });
+
+      const badDate = parseQuery('startDate:2022-13-45', EMPLOYEE_COLUMNS).error;
+      const rolledDate = parseQuery('startDate:2022-02-30', EMPLOYEE_COLUMNS).error;
+      results.push({
+        name: 'Query: impossible bare dates are syntax errors',
+        passed: !!badDate && !!rolledDate,
+        error: !badDate || !rolledDate ? `No error for ${!badDate ? '2022-13-45' : '2022-02-30'}` : undefined
+      });
+
+      const reversedRange = parseQuery('salary:120000..90000', EMPLOYEE_COLUMNS).error;
+      const loneDash = parseQuery('Seattle -', EMPLOYEE_COLUMNS).error;
+      results.push({
+        name: 'Query: reversed range and lone "-" are syntax errors',
+        passed: !!reversedRange && !!loneDash,
+        error: !reversedRange || !loneDash ? `No error for ${!reversedRange ? 'salary:120000..90000' : '"Seattle -"'}` : undefined
+      });
+
+      const completionCases: Array<[string, string]> = [
+        ['dep', 'department:'],
+        ['city:Se', 'city:Seattle'],
+        ['city:(Seattle OR Au', 'city:(Seattle OR Austin'],
+      ];
+      const badCompletions = completionCases.flatMap(([text, expected]) => {
+        const { from, to, suggestions } = queryCompletions(text, text.length, testData, EMPLOYEE_COLUMNS);
+        const completed = suggestions[0] ? text.slice(0, from) + suggestions[0].insert + text.slice(to) : '(none)';
+        return completed === expected ? [] : [`"${text}" -> ${completed}`];
+      });
+      results.push({
+        name: 'Query completions: field name, value, value inside ( OR )',
+        passed: badCompletions.length === 0,
+        error: badCompletions.length > 0 ? `Got ${badCompletions.join('; ')}` : undefined
+      });
+
       const page6 = paginateRows(testData, 6, 10);
       results.push({
         name: 'Page 6 shows E051-E060',
@@ -797,21 +1534,85 @@ export default function App() {
         </div>
 
         {/* Filter & Controls */}
-        <div style={{ marginBottom: '16px', display: 'flex', gap: '12px', alignItems: 'center', flexWrap: 'wrap' }}>
-          <input
-            type="text"
-            value={filterQuery}
-            onChange={(e) => handleFilterChange(e.target.value)}
-            placeholder="Filter across all columns..."
-            style={{
-              flex: '1',
-              minWidth: '200px',
-              padding: '8px 12px',
-              border: '1px solid #d1d5db',
-              borderRadius: '4px',
-              fontSize: '14px'
-            }}
-          />
+        <div style={{ marginBottom: '16px', display: 'flex', gap: '12px', alignItems: 'flex-start', flexWrap: 'wrap' }}>
+          <div style={{ flex: '1', minWidth: '200px', position: 'relative' }}>
+            <input
+              ref={searchRef}
+              type="text"
+              value={filterQuery}
+              onChange={(e) => handleQueryInput(e.target)}
+              onKeyDown={handleQueryKeyDown}
+              onKeyUp={(e) => setQueryCursor(e.currentTarget.selectionStart ?? 0)}
+              onClick={(e) => setQueryCursor(e.currentTarget.selectionStart ?? 0)}
+              onFocus={() => setShowSuggestions(true)}
+              onBlur={() => setShowSuggestions(false)}
+              placeholder="Search, e.g. department:Engineering salary:>100000 city:(Seattle OR Austin) -name:chen"
+              role="combobox"
+              aria-expanded={showSuggestions && completions.suggestions.length > 0}
+              aria-controls="query-suggestions"
+              aria-invalid={queryError !== null}
+              aria-describedby={queryError ? 'query-error' : undefined}
+              spellCheck={false}
+              style={{
+                width: '100%',
+                boxSizing: 'border-box',
+                padding: '8px 12px',
+                border: `1px solid ${queryError ? '#dc2626' : '#d1d5db'}`,
+                borderRadius: '4px',
+                fontSize: '14px'
+              }}
+            />
+            {showSuggestions && completions.suggestions.length > 0 && (
+              <ul
+                id="query-suggestions"
+                role="listbox"
+                style={{
+                  position: 'absolute',
+                  top: '100%',
+                  left: 0,
+                  right: 0,
+                  zIndex: 10,
+                  margin: '2px 0 0',
+                  padding: '4px 0',
+                  listStyle: 'none',
+                  backgroundColor: 'white',
+                  border: '1px solid #d1d5db',
+                  borderRadius: '4px',
+                  boxShadow: '0 4px 12px rgba(0, 0, 0, 0.1)',
+                  fontSize: '13px'
+                }}
+              >
+                {completions.suggestions.map((suggestion, idx) => (
+                  <li
+                    key={suggestion.insert}
+                    role="option"
+                    aria-selected={idx === suggestionIndex}
+                    onMouseDown={(e) => {
+                      e.preventDefault(); // keep focus in the input
+                      acceptSuggestion(suggestion);
+                    }}
+                    onMouseEnter={() => setSuggestionIndex(idx)}
+                    style={{
+                      display: 'flex',
+                      justifyContent: 'space-between',
+                      padding: '4px 12px',
+                      cursor: 'pointer',
+                      backgroundColor: idx === suggestionIndex ? '#dbeafe' : 'transparent'
+                    }}
+                  >
+                    <span style={{ fontFamily: 'monospace' }}>{suggestion.label}</span>
+                    <span style={{ color: '#9ca3af' }}>{suggestion.detail}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {queryError && (
+              <div id="query-error" role="alert" style={{ color: '#dc2626', fontSize: '13px', marginTop: '4px' }}>
+                {queryError.message} (at character {queryError.start + 1}: <code>{filterQuery.slice(queryError.start, queryError.end)}</code>)
+                {' '}Showing results for {appliedQuery ? <code>{appliedQuery}</code> : 'no query'} until this is fixed.
+              </div>
+            )}
+          </div>
           <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
             <label style={{ fontSize: '14px', fontWeight: '500' }}>Rows per page:</label>
             {!isCustomPageSize ? (
@@ -884,14 +1685,85 @@ export default function App() {
           </div>
         </div>
 
+        {/* Column Filters */}
+        <div style={{ marginBottom: '16px', padding: '12px 16px', backgroundColor: '#f9fafb', borderRadius: '8px' }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
+            <span style={{ fontSize: '14px', fontWeight: '600' }}>Column filters{activeColumnFilters > 0 ? ` (${activeColumnFilters} active)` : ''}</span>
+            <button
+              onClick={handleClearColumnFilters}
+              disabled={activeColumnFilters === 0}
+              style={{
+                padding: '4px 10px',
+                backgroundColor: 'white',
+                color: activeColumnFilters === 0 ? '#9ca3af' : '#374151',
+                border: '1px solid #d1d5db',
+                borderRadius: '4px',
+                cursor: activeColumnFilters === 0 ? 'not-allowed' : 'pointer',
+                fontSize: '13px'
+              }}
+            >
+              Clear
+            </button>
+          </div>
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(240px, 1fr))', gap: '12px' }}>
+            {EMPLOYEE_COLUMNS.filter(col => col.filter).map(col => (
+              <div key={col.key}>
+                <div style={{ fontSize: '12px', fontWeight: '500', color: '#374151', marginBottom: '4px' }}>{col.header}</div>
+                {renderColumnFilter(col)}
+              </div>
+            ))}
+          </div>
+        </div>
+
         {/* Status Bar */}
         <div style={{ marginBottom: '12px', fontSize: '14px', color: '#6b7280' }}>
           Total: {allData.length} | Filtered: {filteredData.length} | Pages: {totalPages}
         </div>
 
+        {/* Sort Order */}
+        <div style={{ marginBottom: '12px', display: 'flex', gap: '8px', alignItems: 'center', flexWrap: 'wrap', fontSize: '13px' }}>
+          <span style={{ fontWeight: '500' }}>Sort order:</span>
+          {sortState.length === 0 && (
+            <span style={{ color: '#6b7280' }}>none (click a header; shift-click to add more columns)</span>
+          )}
+          {sortState.map((s, idx) => (
+            <div
+              key={s.key}
+              draggable
+              onDragStart={() => setDragSortIndex(idx)}
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={() => {
+                if (dragSortIndex !== null) handleMoveSort(dragSortIndex, idx);
+                setDragSortIndex(null);
+              }}
+              onDragEnd={() => setDragSortIndex(null)}
+              style={{
+                display: 'flex',
+                gap: '6px',
+                alignItems: 'center',
+                padding: '4px 8px',
+                backgroundColor: dragSortIndex === idx ? '#dbeafe' : 'white',
+                border: '1px solid #d1d5db',
+                borderRadius: '4px',
+                cursor: 'grab'
+              }}
+            >
+              <span style={{ color: '#9ca3af' }}>⋮⋮</span>
+              <span>{s.priority}. {EMPLOYEE_COLUMNS.find(col => col.key === s.key)?.header ?? s.key} {s.direction === 'asc' ? '↑' : '↓'}</span>
+              <button
+                onClick={() => handleRemoveSort(s.key)}
+                aria-label={`Remove sort by ${s.key}`}
+                style={{ padding: '0 4px', border: 'none', backgroundColor: 'transparent', color: '#6b7280', cursor: 'pointer' }}
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+        </div>
+
         {/* Table */}
         <div ref={tableRef}>
-          <DataTable data={paginatedData} sortState={sortState} onSort={handleSort} highlightRow={highlightRow} />
+          <DataTable data={paginatedData} columns={EMPLOYEE_COLUMNS} rowKey={row => row.id} sortState={sortState} onSort={handleSort} highlightRow={highlightRow} />
         </div>
 
         {/* Pagination */}
@@ -949,6 +1821,7 @@ export default function App() {
         <div style={{ marginTop: '24px', padding: '16px', backgroundColor: '#f3f4f6', borderRadius: '8px', fontSize: '13px', fontFamily: 'monospace' }}>
           <div style={{ fontWeight: '600', marginBottom: '8px' }}>Debug Panel</div>
           <div>Filter: "{filterQuery}"</div>
+          <div>Column filters: {EMPLOYEE_COLUMNS.filter(col => isFilterActive(columnFilters[col.key])).map(col => col.key).join(', ') || 'none'}</div>
           <div>Sort: {sortState.filter(s => s.direction).map(s => `${s.key} ${s.direction} (${s.priority})`).join(', ') || 'none'}</div>
           <div>Page: {page} / {totalPages} (size: {pageSize})</div>
           <div>Rows: {allData.length} total, {filteredData.length} filtered, {paginatedData.length} displayed</div>